@@ -1,20 +1,33 @@
 import { Routes, Route, Navigate } from 'react-router-dom'
 import ConversationListScreen from './screens/ConversationListScreen'
 import ChatScreen from './screens/ChatScreen'
+import DocumentScreen from './screens/DocumentScreen'
 import TreeScreen from './screens/TreeScreen'
 import SettingsScreen from './screens/SettingsScreen'
 import RecycleBinScreen from './screens/RecycleBinScreen'
+import SearchScreen from './screens/SearchScreen'
+import BookmarksScreen from './screens/BookmarksScreen'
+import CompareScreen from './screens/CompareScreen'
+import CredentialsPrompt from './components/CredentialsPrompt'
 
 function App() {
   return (
-    <Routes>
-      <Route path="/" element={<ConversationListScreen />} />
-      <Route path="/chat/:conversationId" element={<ChatScreen />} />
-      <Route path="/tree/:conversationId" element={<TreeScreen />} />
-      <Route path="/settings" element={<SettingsScreen />} />
-      <Route path="/recycle-bin" element={<RecycleBinScreen />} />
-      <Route path="*" element={<Navigate to="/" replace />} />
-    </Routes>
+    <>
+      <Routes>
+        <Route path="/" element={<ConversationListScreen />} />
+        <Route path="/chat/:conversationId" element={<ChatScreen />} />
+        <Route path="/document/:conversationId" element={<DocumentScreen />} />
+        <Route path="/tree/:conversationId" element={<TreeScreen />} />
+        <Route path="/compare/:conversationId" element={<CompareScreen />} />
+        <Route path="/settings" element={<SettingsScreen />} />
+        <Route path="/recycle-bin" element={<RecycleBinScreen />} />
+        <Route path="/search" element={<SearchScreen />} />
+        <Route path="/bookmarks" element={<BookmarksScreen />} />
+        <Route path="/bookmarks/:conversationId" element={<BookmarksScreen />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+      <CredentialsPrompt />
+    </>
   )
 }
 
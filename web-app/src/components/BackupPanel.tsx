@@ -0,0 +1,148 @@
+import { useState, useRef } from 'react'
+import {
+  Paper,
+  Typography,
+  Button,
+  Box,
+  Switch,
+  FormControlLabel,
+  TextField,
+  MenuItem,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material'
+import type { RestoreMode } from '../data/db'
+import { type ParsedBackup, backupFilename, createBackup, parseBackup, restoreBackup } from '../data/backup'
+
+interface BackupPanelProps {
+  // Called after a restore so the screen can reload profiles
+  onRestored: () => void
+}
+
+// Whole-database backup to a single file, and restore from one
+export default function BackupPanel({ onRestored }: BackupPanelProps) {
+  const [includeCredentials, setIncludeCredentials] = useState(false)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [pending, setPending] = useState<ParsedBackup | null>(null)
+  const [result, setResult] = useState<{ severity: 'success' | 'error'; message: string } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleBackup = async () => {
+    const json = await createBackup(includeCredentials)
+    const blob = new Blob([json], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = backupFilename()
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      try {
+        setPending(parseBackup(await file.text()))
+        setResult(null)
+      } catch (e) {
+        setResult({ severity: 'error', message: e instanceof Error ? e.message : 'Restore failed' })
+      }
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!pending) return
+    try {
+      const summary = await restoreBackup(pending, mode)
+      const parts = [
+        `${summary.conversationsAdded} conversations added`,
+        ...(summary.conversationsMerged > 0 ? [`${summary.conversationsMerged} merged`] : []),
+        ...(summary.duplicatesSkipped > 0 ? [`${summary.duplicatesSkipped} duplicates skipped`] : []),
+        `${summary.nodesAdded} messages`,
+        `${summary.profilesAdded} new profiles`,
+      ]
+      setResult({ severity: 'success', message: `Restored: ${parts.join(', ')}.` })
+      onRestored()
+    } catch (e) {
+      setResult({ severity: 'error', message: e instanceof Error ? e.message : 'Restore failed' })
+    }
+    setPending(null)
+  }
+
+  return (
+    <Paper sx={{ p: 2, mt: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Backup & Restore
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        Everything is stored in this browser only. A backup holds all conversations, the recycle bin and
+        every profile in one file.
+      </Typography>
+      <FormControlLabel
+        control={
+          <Switch checked={includeCredentials} onChange={(e) => setIncludeCredentials(e.target.checked)} />
+        }
+        label="Include credentials and API keys"
+      />
+      <Box sx={{ display: 'flex', gap: 1, mt: 1, alignItems: 'center' }}>
+        <Button variant="outlined" onClick={handleBackup}>
+          Download backup
+        </Button>
+        <TextField
+          select
+          size="small"
+          label="Restore mode"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as RestoreMode)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="merge">Merge</MenuItem>
+          <MenuItem value="replace">Replace everything</MenuItem>
+        </TextField>
+        <Button variant="outlined" onClick={() => fileInputRef.current?.click()}>
+          Restore
+        </Button>
+      </Box>
+      <input type="file" ref={fileInputRef} style={{ display: 'none' }} accept=".json" onChange={handleFile} />
+
+      {result && (
+        <Alert severity={result.severity} onClose={() => setResult(null)} sx={{ mt: 2 }}>
+          {result.message}
+        </Alert>
+      )}
+
+      <Dialog open={pending !== null} onClose={() => setPending(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{mode === 'replace' ? 'Replace All Data?' : 'Merge Backup?'}</DialogTitle>
+        <DialogContent>
+          {pending && (
+            <DialogContentText>
+              Backup from {new Date(pending.info.createdAt).toLocaleString()} with {pending.info.conversations}{' '}
+              conversations, {pending.info.nodes} messages and {pending.info.profiles} profiles
+              {pending.info.credentialsIncluded ? ', including credentials' : ', without credentials'}.{' '}
+              {mode === 'replace'
+                ? 'Every conversation and profile in this browser will be deleted first.'
+                : 'Conversations and profiles already here are kept; only new ones are added.'}
+            </DialogContentText>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPending(null)}>Cancel</Button>
+          <Button
+            onClick={handleRestore}
+            variant="contained"
+            color={mode === 'replace' ? 'error' : 'primary'}
+          >
+            {mode === 'replace' ? 'Replace' : 'Merge'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  )
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+} from '@mui/material'
+import type { Bookmark } from '../data/db'
+
+interface BookmarkDialogProps {
+  open: boolean
+  bookmark: Bookmark | null
+  // Used as the label when bookmarking a node for the first time
+  defaultLabel: string
+  onClose: () => void
+  onSave: (bookmark: Bookmark | null) => void
+}
+
+export default function BookmarkDialog({
+  open,
+  bookmark,
+  defaultLabel,
+  onClose,
+  onSave,
+}: BookmarkDialogProps) {
+  const [label, setLabel] = useState('')
+  const [tags, setTags] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    setLabel(bookmark?.label ?? defaultLabel)
+    setTags(bookmark?.tags.join(', ') ?? '')
+  }, [open, bookmark, defaultLabel])
+
+  const handleSave = () => {
+    onSave({
+      label: label.trim() || defaultLabel,
+      tags: [...new Set(tags.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean))],
+      createdAt: bookmark?.createdAt ?? Date.now(),
+    })
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{bookmark ? 'Edit Bookmark' : 'Bookmark'}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          label="Label"
+          variant="outlined"
+          sx={{ mt: 1, mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          label="Tags"
+          variant="outlined"
+          helperText="Comma separated, e.g. good-dialogue, revisit"
+        />
+      </DialogContent>
+      <DialogActions>
+        {bookmark && (
+          <Button color="error" onClick={() => onSave(null)} sx={{ mr: 'auto' }}>
+            Remove
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Box,
+  Typography,
+  Switch,
+  FormControlLabel,
+  Alert,
+} from '@mui/material'
+import type { Conversation, Settings, SettingsOverrides } from '../data/db'
+import { modelCapabilities } from '../data/modelCatalogue'
+import ModelPicker from './ModelPicker'
+
+interface ConversationSettingsDialogProps {
+  open: boolean
+  conversation: Conversation
+  profiles: Settings[]
+  onClose: () => void
+  onSave: (
+    profileId: string | null,
+    overrides: SettingsOverrides | null,
+    systemPrompt: string | null
+  ) => void
+}
+
+// Blank fields inherit the value from the bound profile
+export default function ConversationSettingsDialog({
+  open,
+  conversation,
+  profiles,
+  onClose,
+  onSave,
+}: ConversationSettingsDialogProps) {
+  const [profileId, setProfileId] = useState('default')
+  const [modelId, setModelId] = useState('')
+  const [temperature, setTemperature] = useState('')
+  const [maxTokens, setMaxTokens] = useState('')
+  const [thinking, setThinking] = useState<'inherit' | 'on' | 'off'>('inherit')
+  const [thinkingBudget, setThinkingBudget] = useState('')
+  const [customPrompt, setCustomPrompt] = useState(false)
+  const [systemPrompt, setSystemPrompt] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    setError('')
+    const overrides = conversation.settingsOverrides ?? {}
+    setProfileId(conversation.profileId ?? 'default')
+    setModelId(overrides.modelId ?? '')
+    setTemperature(overrides.temperature?.toString() ?? '')
+    setMaxTokens(overrides.maxTokens?.toString() ?? '')
+    setThinking(
+      overrides.extendedThinkingEnabled === undefined
+        ? 'inherit'
+        : overrides.extendedThinkingEnabled
+          ? 'on'
+          : 'off'
+    )
+    setThinkingBudget(overrides.thinkingBudget?.toString() ?? '')
+    setCustomPrompt(conversation.systemPrompt !== null)
+    setSystemPrompt(conversation.systemPrompt ?? '')
+  }, [open, conversation])
+
+  const profile = profiles.find((p) => p.id === profileId)
+  const capabilities = modelCapabilities(modelId.trim() || profile?.modelId || '')
+
+  const handleToggleCustomPrompt = (checked: boolean) => {
+    setCustomPrompt(checked)
+    // Start from the profile prompt so small tweaks are easy
+    if (checked && !systemPrompt) setSystemPrompt(profile?.systemPrompt ?? '')
+  }
+
+  const handleSave = () => {
+    const overrides: SettingsOverrides = {}
+    if (modelId.trim()) overrides.modelId = modelId.trim()
+    if (temperature !== '' && !isNaN(parseFloat(temperature))) {
+      const maxTemperature = capabilities?.maxTemperature ?? 1
+      overrides.temperature = Math.min(maxTemperature, Math.max(0, parseFloat(temperature)))
+    }
+    if (parseInt(maxTokens) > 0) {
+      overrides.maxTokens = Math.min(parseInt(maxTokens), capabilities?.maxOutputTokens ?? Infinity)
+    }
+    if (thinking !== 'inherit') overrides.extendedThinkingEnabled = thinking === 'on'
+    if (parseInt(thinkingBudget) > 0) overrides.thinkingBudget = parseInt(thinkingBudget)
+
+    // Checked against the values the conversation will actually use, overrides or not
+    const effectiveThinking = overrides.extendedThinkingEnabled ?? profile?.extendedThinkingEnabled ?? false
+    const effectiveBudget = overrides.thinkingBudget ?? profile?.thinkingBudget ?? 0
+    const effectiveMaxTokens = overrides.maxTokens ?? profile?.maxTokens ?? Infinity
+    if (effectiveThinking && effectiveBudget >= effectiveMaxTokens) {
+      setError(`Thinking budget must be lower than max tokens (${effectiveMaxTokens}).`)
+      return
+    }
+
+    onSave(
+      profileId === 'default' ? null : profileId,
+      Object.keys(overrides).length > 0 ? overrides : null,
+      customPrompt ? systemPrompt : null
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Conversation Settings</DialogTitle>
+      <DialogContent>
+        <TextField
+          select
+          fullWidth
+          label="Profile"
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          variant="outlined"
+          sx={{ mt: 1, mb: 2 }}
+        >
+          {profiles.map((p) => (
+            <MenuItem key={p.id} value={p.id}>
+              {p.name}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={customPrompt}
+              onChange={(e) => handleToggleCustomPrompt(e.target.checked)}
+            />
+          }
+          label="Custom system prompt for this conversation"
+        />
+        {customPrompt ? (
+          <TextField
+            fullWidth
+            multiline
+            rows={4}
+            label="System Prompt"
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            variant="outlined"
+            sx={{ mt: 1, mb: 2 }}
+          />
+        ) : (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ mb: 2, whiteSpace: 'pre-wrap', maxHeight: 80, overflow: 'auto' }}
+          >
+            {profile?.systemPrompt || 'No system prompt'}
+          </Typography>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Overrides for this conversation only. Leave a field blank to use the profile value.
+        </Typography>
+
+        <Box sx={{ mb: 2 }}>
+          <ModelPicker
+            value={modelId}
+            onChange={setModelId}
+            provider={profile?.provider ?? 'bedrock-converse'}
+            placeholder={profile?.modelId}
+          />
+        </Box>
+        <TextField
+          fullWidth
+          type="number"
+          label="Temperature"
+          value={temperature}
+          onChange={(e) => setTemperature(e.target.value)}
+          placeholder={profile?.temperature.toString()}
+          variant="outlined"
+          sx={{ mb: 2 }}
+          slotProps={{ htmlInput: { min: 0, max: capabilities?.maxTemperature ?? 1, step: 0.05 } }}
+        />
+        <TextField
+          fullWidth
+          type="number"
+          label="Max Tokens"
+          value={maxTokens}
+          onChange={(e) => setMaxTokens(e.target.value)}
+          placeholder={profile?.maxTokens.toString()}
+          variant="outlined"
+          sx={{ mb: 2 }}
+          slotProps={{ htmlInput: { min: 1, max: capabilities?.maxOutputTokens } }}
+          helperText={capabilities ? `Up to ${capabilities.maxOutputTokens} for this model` : undefined}
+        />
+        <TextField
+          select
+          fullWidth
+          label="Extended Thinking"
+          value={thinking}
+          onChange={(e) => setThinking(e.target.value as 'inherit' | 'on' | 'off')}
+          variant="outlined"
+          sx={{ mb: 2 }}
+        >
+          <MenuItem value="inherit">
+            Use profile ({profile?.extendedThinkingEnabled ? 'on' : 'off'})
+          </MenuItem>
+          <MenuItem value="on" disabled={capabilities ? !capabilities.reasoning : false}>
+            On
+          </MenuItem>
+          <MenuItem value="off">Off</MenuItem>
+        </TextField>
+        <TextField
+          fullWidth
+          type="number"
+          label="Thinking Budget (tokens)"
+          value={thinkingBudget}
+          onChange={(e) => setThinkingBudget(e.target.value)}
+          placeholder={profile?.thinkingBudget.toString()}
+          variant="outlined"
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
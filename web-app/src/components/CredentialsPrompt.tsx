@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+} from '@mui/material'
+import {
+  type CredentialsRequest,
+  currentCredentials,
+  parseCredentials,
+  setCredentialsPromptHandler,
+  storeCredentials,
+  unlockCredentials,
+} from '../data/credentials'
+import { isBedrockProvider } from '../data/providers'
+
+const TITLES: Record<CredentialsRequest['reason'], string> = {
+  missing: 'AWS Credentials Needed',
+  locked: 'Unlock AWS Credentials',
+  expired: 'AWS Session Expired',
+}
+
+const API_KEY_TITLES: Record<CredentialsRequest['reason'], string> = {
+  missing: 'API Key Needed',
+  locked: 'Unlock API Key',
+  expired: 'API Key Needed',
+}
+
+// Asks for AWS credentials or an API key whenever a request finds them missing, locked or expired,
+// from any screen
+export default function CredentialsPrompt() {
+  const [request, setRequest] = useState<CredentialsRequest | null>(null)
+  const [text, setText] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [enterNew, setEnterNew] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setCredentialsPromptHandler((next) => {
+      setRequest(next)
+      setText('')
+      setPassphrase('')
+      setEnterNew(false)
+      setError('')
+    })
+    return () => setCredentialsPromptHandler(null)
+  }, [])
+
+  if (!request) return null
+  const { profile, reason } = request
+  const unlocking = reason === 'locked' && !enterNew
+  const encrypted = profile.credentialStorage === 'encrypted'
+  const bedrock = isBedrockProvider(profile.provider)
+
+  const finish = (credentials: string | null) => {
+    request.resolve(credentials)
+    setRequest(null)
+  }
+
+  const handleSubmit = async () => {
+    setError('')
+    try {
+      if (unlocking) {
+        await unlockCredentials(profile, passphrase)
+        finish(currentCredentials(profile))
+        return
+      }
+      if (!bedrock && !text.trim()) {
+        setError('Enter the API key.')
+        return
+      }
+      if (bedrock && !parseCredentials(text, profile.credentialProfile)) {
+        setError(
+          profile.credentialProfile
+            ? `No [${profile.credentialProfile}] section with aws_access_key_id and aws_secret_access_key.`
+            : 'Paste an INI block with aws_access_key_id and aws_secret_access_key.'
+        )
+        return
+      }
+      await storeCredentials(profile, text, passphrase)
+      finish(text)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the credentials')
+    }
+  }
+
+  return (
+    <Dialog open onClose={() => finish(null)} maxWidth="sm" fullWidth>
+      <DialogTitle>{(bedrock ? TITLES : API_KEY_TITLES)[reason]}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {unlocking
+            ? `Profile "${profile.name}" keeps its ${bedrock ? 'credentials' : 'API key'} encrypted. Enter ` +
+              'the passphrase to use it until this tab is closed.'
+            : reason === 'expired'
+              ? `The session token of profile "${profile.name}" has expired. Paste fresh credentials ` +
+                'to continue.'
+              : `Profile "${profile.name}" has no usable ${bedrock ? 'AWS credentials' : 'API key'}` +
+                (profile.credentialStorage === 'memory' ? ' in this tab yet.' : '.')}
+        </DialogContentText>
+        {!unlocking && !bedrock && (
+          <TextField
+            fullWidth
+            type="password"
+            label="API Key"
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            variant="outlined"
+            sx={{ mb: 2 }}
+          />
+        )}
+        {!unlocking && bedrock && (
+          <TextField
+            fullWidth
+            multiline
+            rows={6}
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={`[${profile.credentialProfile || 'default'}]
+aws_access_key_id=...
+aws_secret_access_key=...
+aws_session_token=...`}
+            variant="outlined"
+            sx={{ mb: 2, fontFamily: 'monospace' }}
+          />
+        )}
+        {(unlocking || encrypted) && (
+          <TextField
+            fullWidth
+            type="password"
+            label="Passphrase"
+            autoFocus={unlocking}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && unlocking && handleSubmit()}
+            variant="outlined"
+            helperText={
+              unlocking
+                ? undefined
+                : `The new ${bedrock ? 'credentials are' : 'API key is'} encrypted with this passphrase`
+            }
+          />
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {unlocking && <Button onClick={() => setEnterNew(true)}>Enter new credentials</Button>}
+        <Button onClick={() => finish(null)}>Cancel</Button>
+        <Button onClick={handleSubmit} variant="contained">
+          {unlocking ? 'Unlock' : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Alert,
+} from '@mui/material'
+import { type ExportFormat, type ExportScope, buildExport } from '../data/exportFormats'
+
+interface ExportDialogProps {
+  open: boolean
+  conversationId: string | null
+  // Offers the 'path' scope ending at this node
+  nodeId?: string | null
+  onClose: () => void
+}
+
+export default function ExportDialog({ open, conversationId, nodeId, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('markdown')
+  const [scope, setScope] = useState<ExportScope>('active')
+  const [includeThinking, setIncludeThinking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setScope(nodeId ? 'path' : 'active')
+    setError(null)
+  }, [open, nodeId])
+
+  const handleExport = async () => {
+    if (!conversationId) return
+    try {
+      const file = await buildExport(conversationId, { format, scope, nodeId, includeThinking })
+      const blob = new Blob([file.content], { type: file.mimeType })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = file.filename
+      a.click()
+      URL.revokeObjectURL(url)
+      onClose()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export failed')
+    }
+  }
+
+  // JSON is the re-importable backup, so it always carries the whole tree
+  const isJson = format === 'json'
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Export Conversation</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          select
+          fullWidth
+          label="Format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          variant="outlined"
+          sx={{ mt: 1, mb: 2 }}
+        >
+          <MenuItem value="markdown">Markdown</MenuItem>
+          <MenuItem value="html">HTML page</MenuItem>
+          <MenuItem value="text">Plain-text transcript</MenuItem>
+          <MenuItem value="json">JSON (for re-import)</MenuItem>
+        </TextField>
+        <TextField
+          select
+          fullWidth
+          label="Messages"
+          value={isJson ? 'tree' : scope}
+          onChange={(e) => setScope(e.target.value as ExportScope)}
+          disabled={isJson}
+          variant="outlined"
+          sx={{ mb: 1 }}
+        >
+          <MenuItem value="active">Active path</MenuItem>
+          {nodeId && <MenuItem value="path">Path to the selected message</MenuItem>}
+          <MenuItem value="tree">Whole tree</MenuItem>
+        </TextField>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={isJson || includeThinking}
+              onChange={(e) => setIncludeThinking(e.target.checked)}
+              disabled={isJson}
+            />
+          }
+          label="Include thinking"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleExport} variant="contained" disabled={!conversationId}>
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
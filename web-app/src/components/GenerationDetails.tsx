@@ -0,0 +1,63 @@
+import { Box, Typography } from '@mui/material'
+import type { GenerationMetadata } from '../data/db'
+import { getProvider } from '../data/providers'
+
+interface GenerationDetailsProps {
+  generation: GenerationMetadata
+}
+
+export default function GenerationDetails({ generation }: GenerationDetailsProps) {
+  const rows: [string, string][] = [
+    ['Provider', getProvider(generation.provider).name],
+    ['Model', generation.modelId],
+    ...(generation.region ? [['Region', generation.region] as [string, string]] : []),
+    ['Temperature', generation.temperature === null ? 'default (thinking)' : generation.temperature.toFixed(2)],
+    ['Max tokens', String(generation.maxTokens)],
+    ['Thinking budget', generation.thinkingBudget === null ? 'off' : String(generation.thinkingBudget)],
+    [
+      'Tokens',
+      generation.inputTokens === null
+        ? 'unknown'
+        : `${generation.inputTokens} in / ${generation.outputTokens ?? '?'} out`,
+    ],
+    ['Stop reason', generation.stopReason ?? 'unknown'],
+    ['Latency', generation.latencyMs === null ? 'unknown' : `${(generation.latencyMs / 1000).toFixed(2)}s`],
+  ]
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: 'auto 1fr',
+          columnGap: 2,
+          rowGap: 0.5,
+        }}
+      >
+        {rows.map(([label, value]) => (
+          <Box key={label} sx={{ display: 'contents' }}>
+            <Typography variant="caption" color="text.secondary">
+              {label}
+            </Typography>
+            <Typography variant="caption" sx={{ wordBreak: 'break-all' }}>
+              {value}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+      {generation.systemPrompt && (
+        <>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            System prompt
+          </Typography>
+          <Typography
+            variant="caption"
+            sx={{ display: 'block', whiteSpace: 'pre-wrap', maxHeight: 80, overflow: 'auto' }}
+          >
+            {generation.systemPrompt}
+          </Typography>
+        </>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Typography,
+} from '@mui/material'
+import type { Conversation } from '../data/db'
+
+export type GraftMode = 'move' | 'copy'
+
+interface GraftDialogProps {
+  open: boolean
+  conversations: Conversation[]
+  // Preselected target conversation
+  conversationId: string
+  onClose: () => void
+  onSave: (mode: GraftMode, conversationId: string, parentId: string | null) => void
+}
+
+// Pick where a branch goes: under the target conversation's current message or as a new root
+export default function GraftDialog({
+  open,
+  conversations,
+  conversationId,
+  onClose,
+  onSave,
+}: GraftDialogProps) {
+  const [mode, setMode] = useState<GraftMode>('move')
+  const [targetId, setTargetId] = useState(conversationId)
+  const [attach, setAttach] = useState<'active' | 'root'>('active')
+
+  useEffect(() => {
+    if (!open) return
+    setMode('move')
+    setTargetId(conversationId)
+    setAttach('active')
+  }, [open, conversationId])
+
+  const target = conversations.find((c) => c.id === targetId)
+  const canAttachToActive = !!target?.activeNodeId
+
+  const handleSave = () => {
+    if (!target) return
+    onSave(mode, target.id, attach === 'active' && canAttachToActive ? target.activeNodeId : null)
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Move or Copy Branch</DialogTitle>
+      <DialogContent>
+        <TextField
+          select
+          fullWidth
+          label="Action"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as GraftMode)}
+          variant="outlined"
+          sx={{ mt: 1, mb: 2 }}
+        >
+          <MenuItem value="move">Move</MenuItem>
+          <MenuItem value="copy">Copy</MenuItem>
+        </TextField>
+        <TextField
+          select
+          fullWidth
+          label="Conversation"
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          variant="outlined"
+          sx={{ mb: 2 }}
+        >
+          {conversations.map((c) => (
+            <MenuItem key={c.id} value={c.id}>
+              {c.title}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          fullWidth
+          label="Attach"
+          value={canAttachToActive ? attach : 'root'}
+          onChange={(e) => setAttach(e.target.value as 'active' | 'root')}
+          variant="outlined"
+        >
+          <MenuItem value="active" disabled={!canAttachToActive}>
+            Under the current message
+          </MenuItem>
+          <MenuItem value="root">As a new root</MenuItem>
+        </TextField>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          Grafted messages are marked stale because they were written in a different context.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!target}>
+          {mode === 'move' ? 'Move' : 'Copy'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
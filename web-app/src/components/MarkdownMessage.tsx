@@ -0,0 +1,52 @@
+import { Box } from '@mui/material'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
+
+interface MarkdownMessageProps {
+  content: string
+}
+
+export default function MarkdownMessage({ content }: MarkdownMessageProps) {
+  return (
+    <Box
+      sx={{
+        '& pre': {
+          overflowX: 'auto',
+          borderRadius: 1,
+        },
+        '& code': {
+          fontSize: '0.9em',
+        },
+        '& p': { m: 0 },
+        '& p + p': { mt: 1 },
+      }}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          code({ className, children, ...props }) {
+            const match = /language-(\w+)/.exec(className || '')
+            const inline = !match
+            return !inline ? (
+              <SyntaxHighlighter
+                style={oneDark}
+                language={match[1]}
+                PreTag="div"
+              >
+                {String(children).replace(/\n$/, '')}
+              </SyntaxHighlighter>
+            ) : (
+              <code className={className} {...props}>
+                {children}
+              </code>
+            )
+          },
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </Box>
+  )
+}
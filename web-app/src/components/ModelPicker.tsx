@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { Autocomplete, Box, Button, TextField, Typography, createFilterOptions } from '@mui/material'
+import type { ProviderId, Settings } from '../data/db'
+import { isBedrockProvider } from '../data/providers'
+import { listBedrockModels } from '../data/providers/bedrock'
+import {
+  type CatalogueModel,
+  BUNDLED_MODELS,
+  describeCapabilities,
+  modelCapabilities,
+} from '../data/modelCatalogue'
+
+interface ModelPickerProps {
+  value: string
+  // Called on every keystroke
+  onChange: (modelId: string) => void
+  // Called once a model is chosen from the list or an ID is confirmed with Enter
+  onSelect?: (modelId: string) => void
+  provider: ProviderId
+  // Profile whose credentials and region are used to ask Bedrock for the account's models
+  settings?: Settings
+  // Model used when the field is left blank
+  placeholder?: string
+}
+
+const filterOptions = createFilterOptions<CatalogueModel>({ stringify: (m) => `${m.name} ${m.id}` })
+
+// Model ID field with the Bedrock catalogue as suggestions; any other ID can still be typed
+export default function ModelPicker({
+  value,
+  onChange,
+  onSelect,
+  provider,
+  settings,
+  placeholder,
+}: ModelPickerProps) {
+  const [listed, setListed] = useState<CatalogueModel[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const bedrock = isBedrockProvider(provider)
+  const options = bedrock ? (listed ?? BUNDLED_MODELS) : []
+  const effectiveId = value.trim() || placeholder || ''
+
+  const handleLoad = async () => {
+    if (!settings) return
+    setLoading(true)
+    setError('')
+    try {
+      setListed(await listBedrockModels(settings))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not list models')
+    }
+    setLoading(false)
+  }
+
+  return (
+    <Box>
+      <Autocomplete
+        freeSolo
+        options={options}
+        filterOptions={filterOptions}
+        groupBy={(m) => m.vendor}
+        getOptionLabel={(m) => (typeof m === 'string' ? m : m.id)}
+        renderOption={({ key, ...props }, m) => (
+          <li key={key} {...props}>
+            <Box>
+              <Typography variant="body2">{m.name}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {m.id} - {describeCapabilities(m.capabilities)}
+              </Typography>
+            </Box>
+          </li>
+        )}
+        value={value}
+        inputValue={value}
+        onInputChange={(_, text) => onChange(text)}
+        onChange={(_, m) => (onSelect ?? onChange)(typeof m === 'string' ? m : (m?.id ?? ''))}
+        renderInput={(params) => (
+          <TextField {...params} label="Model ID" placeholder={placeholder} variant="outlined" />
+        )}
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+          {effectiveId ? describeCapabilities(modelCapabilities(effectiveId)) : 'Choose a model'}
+        </Typography>
+        {bedrock && settings && (
+          <Button size="small" onClick={handleLoad} disabled={loading}>
+            {loading ? 'Loading...' : listed ? 'Reload from Bedrock' : 'Load from Bedrock'}
+          </Button>
+        )}
+      </Box>
+      {error && (
+        <Typography variant="caption" color="error" sx={{ display: 'block' }}>
+          {error}
+        </Typography>
+      )}
+      {listed && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+          {listed.length} models available to this account in {settings?.region}
+        </Typography>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,101 @@
+import { Box, Paper, Typography, Button, CircularProgress, IconButton } from '@mui/material'
+import { Close as CloseIcon } from '@mui/icons-material'
+import MarkdownMessage from './MarkdownMessage'
+
+export interface ScatterBranch {
+  key: string
+  nodeId: string | null
+  content: string
+  thinkingContent: string
+  status: 'streaming' | 'done' | 'error'
+  error?: string
+}
+
+interface ScatterViewProps {
+  branches: ScatterBranch[]
+  onSelect: (nodeId: string) => void
+  onDismiss: () => void
+  // Show branches as raw text, for completion documents
+  plainText?: boolean
+}
+
+// Side-by-side columns for sibling completions streamed in parallel
+export default function ScatterView({ branches, onSelect, onDismiss, plainText }: ScatterViewProps) {
+  const finished = branches.every((b) => b.status !== 'streaming')
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle2" color="text.secondary" sx={{ flexGrow: 1 }}>
+          {finished
+            ? `${branches.filter((b) => b.status === 'done').length} of ${branches.length} branches ready - pick one to continue`
+            : `Generating ${branches.length} branches...`}
+        </Typography>
+        {finished && (
+          <IconButton size="small" onClick={onDismiss}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 1 }}>
+        {branches.map((branch, i) => (
+          <Paper
+            key={branch.key}
+            sx={{
+              p: 2,
+              minWidth: 280,
+              maxWidth: 400,
+              flex: '1 0 280px',
+              display: 'flex',
+              flexDirection: 'column',
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+              <Typography variant="caption" sx={{ fontWeight: 'bold', flexGrow: 1 }}>
+                Branch {i + 1}
+              </Typography>
+              {branch.status === 'streaming' && <CircularProgress size={14} />}
+            </Box>
+            <Box sx={{ flexGrow: 1, maxHeight: 400, overflow: 'auto' }}>
+              {branch.thinkingContent && (
+                <Box
+                  sx={{
+                    mb: 1,
+                    p: 1,
+                    whiteSpace: 'pre-wrap',
+                    fontSize: '0.85em',
+                    color: 'text.secondary',
+                    borderLeft: '3px solid',
+                    borderColor: 'secondary.main',
+                  }}
+                >
+                  {branch.thinkingContent}
+                </Box>
+              )}
+              {branch.status === 'error' ? (
+                <Typography color="error" variant="body2">
+                  Error: {branch.error}
+                </Typography>
+              ) : plainText ? (
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {branch.content}
+                </Typography>
+              ) : (
+                <MarkdownMessage content={branch.content} />
+              )}
+            </Box>
+            <Button
+              variant="outlined"
+              size="small"
+              sx={{ mt: 1 }}
+              disabled={!branch.nodeId}
+              onClick={() => branch.nodeId && onSelect(branch.nodeId)}
+            >
+              Select
+            </Button>
+          </Paper>
+        ))}
+      </Box>
+    </Box>
+  )
+}
@@ -0,0 +1,139 @@
+import {
+  type Conversation,
+  type DatabaseRecords,
+  type Node,
+  type RestoreMode,
+  type RestoreSummary,
+  type Settings,
+  DEFAULT_SETTINGS,
+  db,
+  restoreDatabase,
+} from './db'
+
+const BACKUP_FORMAT = 'bedrock-loom-backup'
+
+// Bump when the file layout changes; older versions must stay readable
+export const BACKUP_VERSION = 1
+
+interface BackupFile extends DatabaseRecords {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: number
+  // Dexie schema version the rows were read from
+  schemaVersion: number
+  credentialsIncluded: boolean
+}
+
+export interface BackupInfo {
+  createdAt: number
+  credentialsIncluded: boolean
+  conversations: number
+  nodes: number
+  profiles: number
+}
+
+export interface ParsedBackup {
+  info: BackupInfo
+  records: DatabaseRecords
+}
+
+// Everything in the database, recycle bin included
+export async function createBackup(includeCredentials: boolean): Promise<string> {
+  const [conversations, nodes, settings] = await Promise.all([
+    db.conversations.toArray(),
+    db.nodes.toArray(),
+    db.settings.toArray(),
+  ])
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    schemaVersion: db.verno,
+    credentialsIncluded: includeCredentials,
+    conversations,
+    nodes,
+    settings: includeCredentials
+      ? settings
+      : settings.map(
+          ({ credentials: _credentials, encryptedCredentials: _encrypted, apiKey: _apiKey, ...profile }) =>
+            profile as Settings
+        ),
+  }
+  return JSON.stringify(backup)
+}
+
+export function backupFilename(createdAt: number = Date.now()): string {
+  return `bedrock-loom-backup-${new Date(createdAt).toISOString().slice(0, 10)}.json`
+}
+
+// Fills fields added by later schema versions, the same way the database upgrades do
+function normalizeConversation(conversation: Conversation): Conversation {
+  return {
+    ...conversation,
+    kind: conversation.kind ?? 'chat',
+    profileId: conversation.profileId ?? null,
+    settingsOverrides: conversation.settingsOverrides ?? null,
+    systemPrompt: conversation.systemPrompt ?? null,
+    treeLayoutMode: conversation.treeLayoutMode ?? 'vertical',
+  }
+}
+
+function normalizeNode(node: Node): Node {
+  return {
+    ...node,
+    thinkingContent: node.thinkingContent ?? '',
+    generation: node.generation
+      ? { ...node.generation, provider: node.generation.provider ?? 'bedrock-converse' }
+      : null,
+    bookmark: node.bookmark ?? null,
+    deletedAt: node.deletedAt ?? null,
+    deletedWithId: node.deletedWithId ?? null,
+  }
+}
+
+export function parseBackup(text: string): ParsedBackup {
+  let data: Partial<BackupFile>
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`The file isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`)
+  }
+  if (typeof data !== 'object' || data === null || data.format !== BACKUP_FORMAT) {
+    throw new Error(
+      'This is not a Bedrock Loom backup. Single conversations are imported from the conversation list.'
+    )
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of the app (format ${String(data.version)}). ` +
+        'Update the app to restore it.'
+    )
+  }
+  if (!Array.isArray(data.conversations) || !Array.isArray(data.nodes) || !Array.isArray(data.settings)) {
+    throw new Error('The backup is incomplete: conversations, nodes or settings are missing.')
+  }
+
+  const conversationIds = new Set(data.conversations.map((c) => c.id))
+  const orphan = data.nodes.find((n) => !conversationIds.has(n.conversationId))
+  if (orphan) throw new Error(`Message ${orphan.id} belongs to a conversation that isn't in the backup.`)
+
+  const credentialsIncluded = data.credentialsIncluded === true
+  return {
+    info: {
+      createdAt: data.createdAt ?? 0,
+      credentialsIncluded,
+      conversations: data.conversations.length,
+      nodes: data.nodes.length,
+      profiles: data.settings.length,
+    },
+    records: {
+      conversations: data.conversations.map(normalizeConversation),
+      nodes: data.nodes.map(normalizeNode),
+      settings: data.settings.map((profile) => ({ ...DEFAULT_SETTINGS, ...profile })),
+    },
+  }
+}
+
+export async function restoreBackup(parsed: ParsedBackup, mode: RestoreMode): Promise<RestoreSummary> {
+  return restoreDatabase(parsed.records, mode, parsed.info.credentialsIncluded)
+}
@@ -1,150 +1,181 @@
-import {
-  BedrockRuntimeClient,
-  ConverseStreamCommand,
-  type Message,
-  type ContentBlock,
-  type ConversationRole,
-} from '@aws-sdk/client-bedrock-runtime'
-import { getSettings, type ChatRole } from './db'
-
-interface ChatMessage {
-  role: ChatRole
-  content: string
-}
-
-interface Credentials {
-  accessKeyId: string
-  secretAccessKey: string
-  sessionToken?: string
-}
-
-function parseCredentials(iniContent: string): Credentials | null {
-  const lines = iniContent.split('\n')
-  let accessKeyId = ''
-  let secretAccessKey = ''
-  let sessionToken: string | undefined
-
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (trimmed.startsWith('aws_access_key_id')) {
-      accessKeyId = trimmed.split('=')[1]?.trim() || ''
-    } else if (trimmed.startsWith('aws_secret_access_key')) {
-      secretAccessKey = trimmed.split('=')[1]?.trim() || ''
-    } else if (trimmed.startsWith('aws_session_token')) {
-      sessionToken = trimmed.split('=')[1]?.trim()
-    }
-  }
-
-  if (!accessKeyId || !secretAccessKey) {
-    return null
-  }
+import { getSettings, resolveSettings, type GenerationMetadata, type Settings } from './db'
+import { type ChatMessage, type ProviderEvent, getProvider, isBedrockProvider } from './providers'
+import { credentialStatus } from './credentials'
+import { modelCapabilities } from './modelCatalogue'
 
-  return { accessKeyId, secretAccessKey, sessionToken }
+export interface ChatStreamResult {
+  content: string
+  generation: GenerationMetadata
 }
 
+// Streams a reply through the provider of the conversation's profile
 export async function chatStream(
+  conversationId: string | null,
   messages: ChatMessage[],
   onChunk: (text: string) => void,
   onThinkingChunk?: (text: string) => void,
   abortSignal?: AbortSignal
-): Promise<string> {
-  const settings = await getSettings()
-  const creds = parseCredentials(settings.credentials)
-
-  if (!creds) {
-    throw new Error('Invalid AWS credentials. Please check your settings.')
+): Promise<ChatStreamResult> {
+  const settings = withinModelLimits(await resolveSettings(conversationId))
+  const provider = getProvider(settings.provider)
+  const capabilities = modelCapabilities(settings.modelId)
+
+  // Consecutive nodes with the same role (e.g. continuations saved as child nodes) form one turn
+  const turns: ChatMessage[] = []
+  for (const msg of messages) {
+    const last = turns[turns.length - 1]
+    if (last && last.role === msg.role) {
+      last.content += (msg.role === 'user' ? '\n\n' : '') + msg.content
+    } else {
+      turns.push({ ...msg })
+    }
   }
 
-  const client = new BedrockRuntimeClient({
-    region: settings.region,
-    credentials: {
-      accessKeyId: creds.accessKeyId,
-      secretAccessKey: creds.secretAccessKey,
-      sessionToken: creds.sessionToken,
-    },
-  })
-
-  // Convert messages to Bedrock format
-  const bedrockMessages: Message[] = messages.map((msg) => ({
-    role: (msg.role === 'user' ? 'user' : 'assistant') as ConversationRole,
-    content: [{ text: msg.content } as ContentBlock],
-  }))
-
-  // Build inference config
-  const inferenceConfig: { maxTokens: number; temperature?: number } = {
+  // A trailing assistant turn is sent as prefill for the model to continue
+  const isPrefill = turns.length > 0 && turns[turns.length - 1].role === 'assistant'
+  if (isPrefill) {
+    // Providers reject a final assistant turn that ends in whitespace
+    const last = turns[turns.length - 1]
+    last.content = last.content.trimEnd()
+  }
+  // Extended thinking cannot be combined with a prefilled assistant turn
+  const thinkingEnabled =
+    settings.extendedThinkingEnabled &&
+    !isPrefill &&
+    provider.supportsThinking &&
+    (capabilities?.reasoning ?? true)
+  // Claude requires its default temperature when extended thinking is enabled
+  const temperature = thinkingEnabled && !capabilities?.temperatureWithThinking ? null : settings.temperature
+
+  const generation: GenerationMetadata = {
+    provider: provider.id,
+    modelId: settings.modelId,
+    region: isBedrockProvider(provider.id) ? settings.region : '',
+    temperature,
     maxTokens: settings.maxTokens,
+    systemPrompt: settings.systemPrompt,
+    thinkingBudget: thinkingEnabled ? settings.thinkingBudget : null,
+    inputTokens: null,
+    outputTokens: null,
+    stopReason: null,
+    latencyMs: null,
   }
 
-  // Temperature must be 1.0 when extended thinking is enabled
-  if (!settings.extendedThinkingEnabled) {
-    inferenceConfig.temperature = settings.temperature
-  }
+  const events = provider.stream({ settings, turns, thinkingEnabled, temperature, abortSignal })
+  return consumeEvents(events, generation, onChunk, onThinkingChunk, abortSignal)
+}
 
-  // Build additional model request fields for extended thinking
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let additionalModelRequestFields: Record<string, any> | undefined
-  if (settings.extendedThinkingEnabled) {
-    additionalModelRequestFields = {
-      thinking: {
-        type: 'enabled',
-        budget_tokens: settings.thinkingBudget,
-      },
-    }
+// Continues a completion document: the prompt is its text so far, with no roles or system prompt
+export async function completionStream(
+  conversationId: string | null,
+  prompt: string,
+  onChunk: (text: string) => void,
+  abortSignal?: AbortSignal
+): Promise<ChatStreamResult> {
+  const settings = withinModelLimits(await resolveSettings(conversationId))
+  const provider = getProvider(settings.provider)
+  if (!provider.complete) {
+    throw new Error(
+      `${provider.name} only serves chat models. Use an OpenAI-compatible server or Bedrock InvokeModel ` +
+        'with a text model for completion documents.'
+    )
   }
 
-  const command = new ConverseStreamCommand({
+  const generation: GenerationMetadata = {
+    provider: provider.id,
     modelId: settings.modelId,
-    messages: bedrockMessages,
-    system: settings.systemPrompt ? [{ text: settings.systemPrompt }] : undefined,
-    inferenceConfig,
-    additionalModelRequestFields,
-  })
+    region: isBedrockProvider(provider.id) ? settings.region : '',
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    systemPrompt: '',
+    thinkingBudget: null,
+    inputTokens: null,
+    outputTokens: null,
+    stopReason: null,
+    latencyMs: null,
+  }
 
+  const events = provider.complete({ settings, prompt, temperature: settings.temperature, abortSignal })
+  return consumeEvents(events, generation, onChunk, undefined, abortSignal)
+}
+
+// Accumulates streamed text and fills in the generation metadata; a stop keeps what arrived so far
+async function consumeEvents(
+  events: AsyncGenerator<ProviderEvent>,
+  generation: GenerationMetadata,
+  onChunk: (text: string) => void,
+  onThinkingChunk: ((text: string) => void) | undefined,
+  abortSignal: AbortSignal | undefined
+): Promise<ChatStreamResult> {
   let fullResponse = ''
   let fullThinking = ''
+  const startedAt = Date.now()
 
   try {
-    const response = await client.send(command, { abortSignal })
+    for await (const event of events) {
+      if (abortSignal?.aborted) {
+        break
+      }
 
-    if (response.stream) {
-      for await (const event of response.stream) {
-        if (abortSignal?.aborted) {
+      switch (event.type) {
+        case 'text':
+          fullResponse += event.text
+          onChunk(fullResponse)
+          break
+        case 'thinking':
+          fullThinking += event.text
+          onThinkingChunk?.(fullThinking)
+          break
+        case 'usage':
+          generation.inputTokens = event.inputTokens ?? generation.inputTokens
+          generation.outputTokens = event.outputTokens ?? generation.outputTokens
+          break
+        case 'stop':
+          generation.stopReason = event.reason
+          break
+        case 'latency':
+          generation.latencyMs = event.ms
           break
-        }
-
-        if (event.contentBlockDelta) {
-          const delta = event.contentBlockDelta.delta
-          if (delta) {
-            // Handle text content
-            if ('text' in delta && delta.text) {
-              fullResponse += delta.text
-              onChunk(fullResponse)
-            }
-            // Handle thinking content
-            if ('reasoningContent' in delta) {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              const reasoning = delta.reasoningContent as any
-              if (reasoning?.text) {
-                fullThinking += reasoning.text
-                onThinkingChunk?.(fullThinking)
-              }
-            }
-          }
-        }
       }
     }
   } catch (error) {
     if (abortSignal?.aborted) {
-      return fullResponse
+      return { content: fullResponse, generation: finishGeneration(generation, startedAt) }
     }
     throw error
   }
 
-  return fullResponse
+  return { content: fullResponse, generation: finishGeneration(generation, startedAt) }
+}
+
+// Smallest thinking budget Claude accepts
+const MIN_THINKING_BUDGET = 1024
+
+// Clamp values saved before the model was switched to what the catalogue says it accepts. The thinking
+// budget has to stay below max tokens; when there's no room for the minimum budget, thinking is turned off.
+function withinModelLimits(settings: Settings): Settings {
+  const capabilities = modelCapabilities(settings.modelId)
+  const maxTokens = Math.min(settings.maxTokens, capabilities?.maxOutputTokens ?? Infinity)
+  const thinkingBudget = Math.min(settings.thinkingBudget, maxTokens - 1)
+  return {
+    ...settings,
+    maxTokens,
+    temperature: Math.min(settings.temperature, capabilities?.maxTemperature ?? Infinity),
+    thinkingBudget,
+    extendedThinkingEnabled: settings.extendedThinkingEnabled && thinkingBudget >= MIN_THINKING_BUDGET,
+  }
+}
+
+// Fall back to wall-clock latency when the stream ended before its metadata event
+function finishGeneration(generation: GenerationMetadata, startedAt: number): GenerationMetadata {
+  return {
+    ...generation,
+    latencyMs: generation.latencyMs ?? Date.now() - startedAt,
+  }
 }
 
 export async function validateCredentials(): Promise<boolean> {
   const settings = await getSettings()
-  const creds = parseCredentials(settings.credentials)
-  return creds !== null
+  if (!isBedrockProvider(settings.provider)) return true
+  return credentialStatus(settings) === 'ok'
 }
@@ -0,0 +1,224 @@
+import type { Settings } from './db'
+import { currentCredentials, isExpiredTokenError, parseCredentials } from './credentials'
+import { BUNDLED_MODELS } from './modelCatalogue'
+import { pingBedrock } from './providers/bedrock'
+
+export type ConnectionProblem =
+  | 'no-credentials'
+  | 'bad-signature'
+  | 'expired-token'
+  | 'access-denied'
+  | 'unknown-model'
+  | 'wrong-region'
+  | 'throttled'
+  | 'unreachable'
+  | 'unexpected'
+
+export interface ConnectionTestResult {
+  // null when the model answered
+  problem: ConnectionProblem | null
+  title: string
+  explanation: string
+  // What AWS itself said, for anything the explanation doesn't cover
+  detail: string
+  latencyMs: number
+}
+
+const TITLES: Record<ConnectionProblem, string> = {
+  'no-credentials': 'No credentials',
+  'bad-signature': 'Credentials rejected',
+  'expired-token': 'Session token expired',
+  'access-denied': 'Access denied to this model',
+  'unknown-model': 'Unknown model ID',
+  'wrong-region': 'Wrong region',
+  throttled: 'Throttled',
+  unreachable: 'Bedrock not reachable',
+  unexpected: 'Unexpected error',
+}
+
+const THROTTLING_ERRORS = ['ThrottlingException', 'TooManyRequestsException', 'ServiceQuotaExceededException']
+
+// Inference profile prefixes and the start of the region names they route within
+const PROFILE_GEOGRAPHIES: Record<string, string> = {
+  'us-gov': 'us-gov-',
+  us: 'us-',
+  eu: 'eu-',
+  apac: 'ap-',
+  jp: 'ap-',
+  au: 'ap-',
+  ca: 'ca-',
+}
+
+function profilePrefix(modelId: string): string | null {
+  return modelId.match(/^(us-gov|us|eu|apac|jp|au|ca)\./)?.[1] ?? null
+}
+
+function regionMatchesProfile(prefix: string, region: string): boolean {
+  if (prefix === 'us' && region.startsWith('us-gov-')) return false
+  return region.startsWith(PROFILE_GEOGRAPHIES[prefix])
+}
+
+// Inference profile for a base model ID in the region's geography, e.g. us.anthropic...
+function suggestedProfile(modelId: string, region: string): string {
+  const prefix = ['us-gov', 'us', 'eu', 'apac', 'ca'].find((p) => regionMatchesProfile(p, region))
+  return `${prefix ?? 'us'}.${modelId}`
+}
+
+type Diagnosis = Pick<ConnectionTestResult, 'problem' | 'explanation'>
+
+// Bedrock answers "model identifier is invalid" both for typos and for models the region doesn't offer
+function classifyMissingModel(settings: Settings): Diagnosis {
+  const { modelId, region } = settings
+  const prefix = profilePrefix(modelId)
+  if (prefix && !regionMatchesProfile(prefix, region)) {
+    return {
+      problem: 'wrong-region',
+      explanation:
+        `The inference profile ${modelId} only routes within the "${prefix}" geography, which doesn't ` +
+        `include ${region}. Switch to a region there, or use the profile with the matching prefix.`,
+    }
+  }
+  const baseId = prefix ? modelId.slice(prefix.length + 1) : modelId
+  const known = BUNDLED_MODELS.some((m) => m.id === modelId || m.id.endsWith(`.${baseId}`))
+  if (known) {
+    return {
+      problem: 'wrong-region',
+      explanation:
+        `${modelId} exists, but Bedrock doesn't offer it in ${region}. Choose a region where the model is ` +
+        'available, or use "Load from Bedrock" to see what this region offers.',
+    }
+  }
+  return {
+    problem: 'unknown-model',
+    explanation:
+      `Bedrock has no model with the ID ${modelId}. Check it for typos, or pick one from the list ` +
+      '(the ID, not the display name).',
+  }
+}
+
+function classifyError(error: unknown, settings: Settings): Diagnosis {
+  const { modelId, region } = settings
+  const { name = '', message = '' } = (error ?? {}) as { name?: string; message?: string }
+  const statusCode = (error as { $metadata?: { httpStatusCode?: number } } | null)?.$metadata?.httpStatusCode
+
+  if (isExpiredTokenError(error)) {
+    return {
+      problem: 'expired-token',
+      explanation:
+        'AWS rejected the session token as expired. Get fresh temporary credentials (from your SSO ' +
+        'portal or "aws configure export-credentials") and paste them here.',
+    }
+  }
+  if (['InvalidSignatureException', 'SignatureDoesNotMatch', 'IncompleteSignature'].includes(name)) {
+    return {
+      problem: 'bad-signature',
+      explanation:
+        "The request signature didn't match, which means the secret access key doesn't belong to this " +
+        "access key ID. Check that the secret was copied completely, and that this computer's clock is " +
+        'correct.',
+    }
+  }
+  if (['UnrecognizedClientException', 'InvalidClientTokenId'].includes(name)) {
+    return {
+      problem: 'bad-signature',
+      explanation:
+        "AWS doesn't recognise the access key ID or session token. Check that both were copied completely " +
+        "from the same set of credentials, and that the key hasn't been deactivated.",
+    }
+  }
+  if (name === 'AccessDeniedException') {
+    return {
+      problem: 'access-denied',
+      explanation: /not authorized to perform/i.test(message)
+        ? "The credentials are valid, but their IAM policy doesn't allow bedrock:InvokeModel on " +
+          `${modelId}. Ask your administrator to grant it (for an inference profile, in every region it ` +
+          'routes to).'
+        : `The credentials are valid, but this account hasn't been given access to ${modelId}. Request it ` +
+          `under "Model access" in the Bedrock console for ${region}.`,
+    }
+  }
+  if (THROTTLING_ERRORS.includes(name)) {
+    return {
+      problem: 'throttled',
+      explanation:
+        'The credentials and model are fine, but Bedrock is limiting requests from this account right ' +
+        `now. Wait a minute and try again; if it keeps happening, ask for a higher quota for ${modelId}.`,
+    }
+  }
+  if (/on-demand throughput isn.t supported/i.test(message)) {
+    return {
+      problem: 'unknown-model',
+      explanation:
+        `${modelId} can't be called directly, only through an inference profile. Use ` +
+        `${suggestedProfile(modelId, region)} instead.`,
+    }
+  }
+  if (
+    name === 'ResourceNotFoundException' ||
+    (name === 'ValidationException' &&
+      /model identifier is invalid|model.*not (found|supported)/i.test(message))
+  ) {
+    return classifyMissingModel(settings)
+  }
+  // No response at all: DNS, network or a region name Bedrock has no endpoint for
+  if (statusCode === undefined) {
+    return /^[a-z]{2}(-gov)?-[a-z]+-\d+$/.test(region)
+      ? {
+          problem: 'unreachable',
+          explanation:
+            `Could not reach bedrock-runtime.${region}.amazonaws.com. Check the network connection and any ` +
+            'proxy or firewall, and that Bedrock is offered in this region.',
+        }
+      : {
+          problem: 'wrong-region',
+          explanation: `"${region}" isn't an AWS region name. Use one like us-east-1 or eu-west-1.`,
+        }
+  }
+  return {
+    problem: 'unexpected',
+    explanation: "Bedrock returned an error this test doesn't recognise; see the details below.",
+  }
+}
+
+// Sends the smallest possible request with the settings as edited, before they are saved
+export async function testConnection(settings: Settings): Promise<ConnectionTestResult> {
+  const startedAt = Date.now()
+  const result = (
+    problem: ConnectionProblem | null,
+    explanation: string,
+    detail = ''
+  ): ConnectionTestResult => ({
+    problem,
+    title: problem ? TITLES[problem] : 'Connected',
+    explanation,
+    detail,
+    latencyMs: Date.now() - startedAt,
+  })
+
+  const credentials = parseCredentials(currentCredentials(settings), settings.credentialProfile)
+  if (!credentials) {
+    return result(
+      'no-credentials',
+      settings.credentialProfile
+        ? `No [${settings.credentialProfile}] section with aws_access_key_id and aws_secret_access_key.`
+        : 'Paste an INI block with aws_access_key_id and aws_secret_access_key first.'
+    )
+  }
+  if (credentials.expiresAt !== undefined && credentials.expiresAt <= Date.now()) {
+    return result(
+      'expired-token',
+      `The session token expired ${new Date(credentials.expiresAt).toLocaleString()}, so the request ` +
+        'was not sent. Paste fresh credentials.'
+    )
+  }
+  if (!settings.modelId.trim()) return result('unknown-model', 'Choose a model to test against.')
+
+  try {
+    await pingBedrock(settings, credentials)
+  } catch (error) {
+    const { problem, explanation } = classifyError(error, settings)
+    const detail = error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+    return result(problem, explanation, detail)
+  }
+  return result(null, `${settings.modelId} answered from ${settings.region}.`)
+}
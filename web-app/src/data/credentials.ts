@@ -0,0 +1,258 @@
+import { type EncryptedSecret, type Settings, getProfile, saveProfile } from './db'
+import { isBedrockProvider } from './providers'
+
+export interface AwsCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+  // From the expiration keys that credential helpers write next to a session token
+  expiresAt?: number
+}
+
+// Why a profile's credentials can't be used right now
+export type CredentialStatus = 'ok' | 'missing' | 'locked' | 'expired'
+
+// Sections of an INI file by name; "[profile dev]" (config-file style) is read as "dev"
+export function parseIni(text: string): Map<string, Record<string, string>> {
+  const sections = new Map<string, Record<string, string>>()
+  let current: Record<string, string> | null = null
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue
+
+    const header = line.match(/^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/)
+    if (header) {
+      current = sections.get(header[1]) ?? {}
+      sections.set(header[1], current)
+      continue
+    }
+
+    // Keys before any header belong to the default profile, as pasted from a console snippet
+    if (!current) {
+      current = sections.get('default') ?? {}
+      sections.set('default', current)
+    }
+    const eq = line.indexOf('=')
+    if (eq === -1) continue
+    const key = line.slice(0, eq).trim().toLowerCase()
+    // Secrets and tokens may themselves contain '='; only the first one separates the key
+    const value = line
+      .slice(eq + 1)
+      .replace(/\s[#;].*$/, '')
+      .trim()
+      .replace(/^(["'])(.*)\1$/, '$2')
+    current[key] = value
+  }
+  return sections
+}
+
+// Names of the sections that hold a usable key pair
+export function listCredentialProfiles(text: string): string[] {
+  return [...parseIni(text)]
+    .filter(([, values]) => values.aws_access_key_id && values.aws_secret_access_key)
+    .map(([name]) => name)
+}
+
+const EXPIRATION_KEYS = ['aws_session_expiration', 'aws_expiration', 'x_security_token_expires', 'expiration']
+
+// Reads the named section, else [default], else the only section with keys
+export function parseCredentials(text: string, profileName: string = ''): AwsCredentials | null {
+  const sections = parseIni(text)
+  const names = listCredentialProfiles(text)
+  const name = profileName || (names.includes('default') ? 'default' : names.length === 1 ? names[0] : '')
+  const values = sections.get(name)
+  if (!values?.aws_access_key_id || !values.aws_secret_access_key) return null
+
+  const expiration = EXPIRATION_KEYS.map((key) => values[key]).find(Boolean)
+  const expiresAt = expiration ? Date.parse(expiration) : NaN
+  return {
+    accessKeyId: values.aws_access_key_id,
+    secretAccessKey: values.aws_secret_access_key,
+    sessionToken: values.aws_session_token || values.aws_security_token || undefined,
+    expiresAt: isNaN(expiresAt) ? undefined : expiresAt,
+  }
+}
+
+// Credentials kept out of the settings table (memory-only, or decrypted), by profile id; gone
+// when the tab closes
+const sessionCredentials = new Map<string, string>()
+// Profiles whose session token AWS has rejected as expired
+const expiredProfiles = new Set<string>()
+
+// The secret usable right now: the AWS INI text for Bedrock, else the API key; '' when it must
+// be entered or unlocked first
+export function currentCredentials(settings: Settings): string {
+  if (settings.credentialStorage !== 'plaintext') return sessionCredentials.get(settings.id) ?? ''
+  return isBedrockProvider(settings.provider) ? settings.credentials : settings.apiKey
+}
+
+export function credentialStatus(settings: Settings): CredentialStatus {
+  const text = currentCredentials(settings)
+  if (!text) {
+    return settings.credentialStorage === 'encrypted' && settings.encryptedCredentials ? 'locked' : 'missing'
+  }
+  if (!isBedrockProvider(settings.provider)) return 'ok'
+  const credentials = parseCredentials(text, settings.credentialProfile)
+  if (!credentials) return 'missing'
+  if (expiredProfiles.has(settings.id)) return 'expired'
+  if (credentials.expiresAt !== undefined && credentials.expiresAt <= Date.now()) return 'expired'
+  return 'ok'
+}
+
+export function markCredentialsExpired(profileId: string): void {
+  expiredProfiles.add(profileId)
+}
+
+// STS and Bedrock report a stale session token with one of these codes
+export function isExpiredTokenError(error: unknown): boolean {
+  const name = (error as { name?: string } | null)?.name ?? ''
+  return ['ExpiredTokenException', 'ExpiredToken', 'RequestExpired'].includes(name)
+}
+
+const PBKDF2_ITERATIONS = 310000
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0))
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export async function encryptSecret(plaintext: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    iterations: PBKDF2_ITERATIONS,
+  }
+}
+
+export async function decryptSecret(secret: EncryptedSecret, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations)
+  try {
+    const iv = fromBase64(secret.iv)
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, fromBase64(secret.data))
+    return new TextDecoder().decode(data)
+  } catch {
+    throw new Error('Wrong passphrase.')
+  }
+}
+
+// Saves new credentials the way the profile keeps them and returns the profile as saved; the
+// passphrase is only needed for encrypted storage
+export async function storeCredentials(settings: Settings, text: string, passphrase = ''): Promise<Settings> {
+  // Re-read the profile so conversation overrides merged into these settings aren't saved with it
+  const profile = await getProfile(settings.id)
+  if (profile.credentialStorage === 'encrypted' && !passphrase) {
+    throw new Error('A passphrase is required to encrypt the credentials.')
+  }
+  const plaintext = profile.credentialStorage === 'plaintext'
+  const bedrock = isBedrockProvider(profile.provider)
+  const stored: Settings = {
+    ...profile,
+    credentials: plaintext && bedrock ? text : '',
+    apiKey: plaintext && !bedrock ? text : '',
+    encryptedCredentials:
+      profile.credentialStorage === 'encrypted' ? await encryptSecret(text, passphrase) : null,
+  }
+  await saveProfile(stored)
+  if (plaintext) {
+    sessionCredentials.delete(profile.id)
+  } else {
+    sessionCredentials.set(profile.id, text)
+  }
+  expiredProfiles.delete(profile.id)
+  return stored
+}
+
+export async function unlockCredentials(settings: Settings, passphrase: string): Promise<void> {
+  if (!settings.encryptedCredentials) throw new Error('No encrypted credentials are saved for this profile.')
+  sessionCredentials.set(settings.id, await decryptSecret(settings.encryptedCredentials, passphrase))
+}
+
+export interface CredentialsRequest {
+  profile: Settings
+  reason: Exclude<CredentialStatus, 'ok'>
+  // Called with the credentials once stored or unlocked, or null when the user gives up
+  resolve: (text: string | null) => void
+}
+
+let promptHandler: ((request: CredentialsRequest) => void) | null = null
+// Parallel branches of one profile share a single prompt
+const pendingPrompts = new Map<string, Promise<string | null>>()
+
+// Registered by the app-wide dialog that asks for re-entry
+export function setCredentialsPromptHandler(handler: ((request: CredentialsRequest) => void) | null): void {
+  promptHandler = handler
+}
+
+const UNAVAILABLE_MESSAGES: Record<CredentialsRequest['reason'], string> = {
+  missing: 'AWS credentials are missing or invalid. Please check your settings.',
+  locked: 'The AWS credentials for this profile are encrypted; unlock them with your passphrase.',
+  expired: 'The AWS session token has expired. Paste fresh credentials to continue.',
+}
+
+// Asks the user through the app-wide dialog; parallel requests of one profile share the prompt
+function promptForCredentials(
+  settings: Settings,
+  status: Exclude<CredentialStatus, 'ok'>
+): Promise<string | null> {
+  let pending = pendingPrompts.get(settings.id)
+  if (!pending) {
+    const handler = promptHandler
+    pending = handler
+      ? new Promise<string | null>((resolve) => handler({ profile: settings, reason: status, resolve }))
+      : Promise.resolve(null)
+    pendingPrompts.set(settings.id, pending)
+    pending.finally(() => pendingPrompts.delete(settings.id))
+  }
+  return pending
+}
+
+// Credentials for a request, asking the user to enter or unlock them when needed
+export async function resolveCredentials(settings: Settings): Promise<AwsCredentials> {
+  const status = credentialStatus(settings)
+  if (status === 'ok') return parseCredentials(currentCredentials(settings), settings.credentialProfile)!
+
+  const text = await promptForCredentials(settings, status)
+  const credentials = text ? parseCredentials(text, settings.credentialProfile) : null
+  if (!credentials) throw new Error(UNAVAILABLE_MESSAGES[status])
+  return credentials
+}
+
+// API key for the Anthropic and OpenAI-compatible providers, asking for it when it is locked or
+// still to be entered; an optional key that was never set comes back empty
+export async function resolveApiKey(settings: Settings, required: boolean): Promise<string> {
+  const status = credentialStatus(settings)
+  if (status === 'ok') return currentCredentials(settings)
+  // Optional keys kept in plain text were simply left out; a memory-only one is asked for once
+  if (status === 'missing' && !required && settings.credentialStorage === 'plaintext') return ''
+
+  const key = await promptForCredentials(settings, status)
+  if (!key && (required || status === 'locked')) {
+    throw new Error(
+      status === 'locked'
+        ? 'The API key for this profile is encrypted; unlock it with your passphrase.'
+        : 'No API key. Please add one in settings.'
+    )
+  }
+  return key ?? ''
+}
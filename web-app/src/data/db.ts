@@ -1,43 +1,142 @@
-import Dexie, { type EntityTable } from 'dexie'
+import Dexie, { type Collection, type EntityTable, type Table } from 'dexie'
+import { tokenize } from './search'
 
 export type ChatRole = 'user' | 'assistant'
 
+// How a continued assistant message is saved: appended to the node, or as a new child node
+export type ContinuationMode = 'merge' | 'child'
+
+// API a profile generates with: Bedrock (Converse or InvokeModel), the Anthropic API, or any
+// OpenAI-compatible server such as llama.cpp or Ollama
+export type ProviderId = 'bedrock-converse' | 'bedrock-invoke' | 'anthropic' | 'openai-compatible'
+
+// Chat turns, or one continuous document continued by a base model (nodes are text segments
+// and the prompt is their root-to-node concatenation)
+export type ConversationKind = 'chat' | 'completion'
+
+// Where a profile's AWS credentials live: the settings table, this tab's memory only, or the
+// settings table encrypted with a passphrase that is asked for once per session
+export type CredentialStorage = 'plaintext' | 'memory' | 'encrypted'
+
+// AES-GCM ciphertext with the PBKDF2 salt and IV needed to decrypt it, all base64
+export interface EncryptedSecret {
+  salt: string
+  iv: string
+  data: string
+  iterations: number
+}
+
+// How the tree view arranges a conversation's nodes
+export type TreeLayoutMode = 'vertical' | 'horizontal' | 'radial' | 'compact'
+
 export interface Conversation {
   id: string
   title: string
+  kind: ConversationKind
   createdAt: number
   updatedAt: number
   activeNodeId: string | null
   deletedAt: number | null
+  // Settings profile used for this conversation, null for the default profile
+  profileId: string | null
+  settingsOverrides: SettingsOverrides | null
+  // Replaces the profile's system prompt for this conversation when set
+  systemPrompt: string | null
+  treeLayoutMode: TreeLayoutMode
+}
+
+// Config and stream results recorded for each generated assistant node
+export interface GenerationMetadata {
+  provider: ProviderId
+  modelId: string
+  // Empty for providers outside Bedrock
+  region: string
+  // null when extended thinking forced the model default
+  temperature: number | null
+  maxTokens: number
+  systemPrompt: string
+  // null when extended thinking was disabled
+  thinkingBudget: number | null
+  inputTokens: number | null
+  outputTokens: number | null
+  stopReason: string | null
+  latencyMs: number | null
+}
+
+export interface Bookmark {
+  label: string
+  tags: string[]
+  createdAt: number
 }
 
 export interface Node {
   id: string
   conversationId: string
   parentId: string | null
+  // In completion conversations this only records who wrote the segment: user or model
   role: ChatRole
   content: string
   thinkingContent: string
   createdAt: number
   branchIndex: number
+  // Set when an ancestor was edited in place after this node was generated
+  stale?: boolean
+  // Last time this node was the conversation's active node
+  lastVisitedAt?: number
+  generation: GenerationMetadata | null
+  // Generation was stopped or failed before the model finished
+  truncated?: boolean
+  bookmark: Bookmark | null
+  deletedAt: number | null
+  // Root of the subtree this node was deleted with, so the subtree is restored as a unit
+  deletedWithId: string | null
 }
 
+// Each row of the settings table is a named profile; 'default' always exists
 export interface Settings {
   id: string
+  name: string
+  provider: ProviderId
+  // AWS shared-credentials INI; empty unless credentialStorage is 'plaintext'
   credentials: string
+  credentialStorage: CredentialStorage
+  encryptedCredentials: EncryptedSecret | null
+  // INI section to use; empty for [default] or the only section
+  credentialProfile: string
   region: string
+  // Key and endpoint for the Anthropic and OpenAI-compatible providers; an empty base URL uses the
+  // provider's default
+  apiKey: string
+  baseUrl: string
   modelId: string
   maxTokens: number
   temperature: number
   systemPrompt: string
   extendedThinkingEnabled: boolean
   thinkingBudget: number
+  branchCount: number
+  continuationMode: ContinuationMode
+}
+
+// Per-conversation values that take precedence over the bound profile
+export type SettingsOverrides = Partial<
+  Pick<Settings, 'modelId' | 'temperature' | 'maxTokens' | 'extendedThinkingEnabled' | 'thinkingBudget'>
+>
+
+// One row per distinct word of a node, so search is an indexed lookup instead of a scan
+export interface SearchToken {
+  token: string
+  nodeId: string
+  conversationId: string
+  inContent: boolean
+  inThinking: boolean
 }
 
 class LoomDatabase extends Dexie {
   conversations!: EntityTable<Conversation, 'id'>
   nodes!: EntityTable<Node, 'id'>
   settings!: EntityTable<Settings, 'id'>
+  searchTokens!: Table<SearchToken, [string, string]>
 
   constructor() {
     super('BedrocKLoomDB')
@@ -46,6 +145,179 @@ class LoomDatabase extends Dexie {
       nodes: 'id, conversationId, parentId, createdAt, branchIndex',
       settings: 'id',
     })
+    // v2: nodes record how they were generated
+    this.version(2)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex',
+        settings: 'id',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('nodes')
+          .toCollection()
+          .modify((node) => {
+            if (node.generation === undefined) node.generation = null
+          })
+      )
+    // v3: named settings profiles bound to conversations
+    this.version(3)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex',
+        settings: 'id',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table('conversations')
+          .toCollection()
+          .modify((conversation) => {
+            if (conversation.profileId === undefined) conversation.profileId = null
+            if (conversation.settingsOverrides === undefined) conversation.settingsOverrides = null
+          })
+        await tx
+          .table('settings')
+          .toCollection()
+          .modify((settings) => {
+            if (settings.name === undefined) settings.name = 'Default'
+          })
+      })
+    // v4: per-conversation system prompt
+    this.version(4)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex',
+        settings: 'id',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('conversations')
+          .toCollection()
+          .modify((conversation) => {
+            if (conversation.systemPrompt === undefined) conversation.systemPrompt = null
+          })
+      )
+    // v5: token index for full-text search
+    this.version(5)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade(async (tx) => {
+        const nodes: Node[] = await tx.table('nodes').toArray()
+        await tx.table('searchTokens').bulkPut(nodes.flatMap(searchTokensFor))
+      })
+    // v6: bookmarks, indexed by creation time (unbookmarked nodes stay out of the index)
+    this.version(6)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex, bookmark.createdAt',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('nodes')
+          .toCollection()
+          .modify((node) => {
+            if (node.bookmark === undefined) node.bookmark = null
+          })
+      )
+    // v7: per-node recycle bin
+    this.version(7)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex, bookmark.createdAt, deletedAt, deletedWithId',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('nodes')
+          .toCollection()
+          .modify((node) => {
+            if (node.deletedAt === undefined) node.deletedAt = null
+            if (node.deletedWithId === undefined) node.deletedWithId = null
+          })
+      )
+    // v8: remembered tree layout per conversation
+    this.version(8)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex, bookmark.createdAt, deletedAt, deletedWithId',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('conversations')
+          .toCollection()
+          .modify((conversation) => {
+            if (conversation.treeLayoutMode === undefined) conversation.treeLayoutMode = 'vertical'
+          })
+      )
+    // v9: pluggable providers; everything generated so far went through Bedrock Converse
+    this.version(9)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex, bookmark.createdAt, deletedAt, deletedWithId',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table('settings')
+          .toCollection()
+          .modify((settings) => {
+            if (settings.provider === undefined) settings.provider = 'bedrock-converse'
+            if (settings.apiKey === undefined) settings.apiKey = ''
+            if (settings.baseUrl === undefined) settings.baseUrl = ''
+          })
+        await tx
+          .table('nodes')
+          .toCollection()
+          .modify((node) => {
+            if (node.generation && node.generation.provider === undefined) {
+              node.generation.provider = 'bedrock-converse'
+            }
+          })
+      })
+    // v10: raw text-completion conversations
+    this.version(10)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex, bookmark.createdAt, deletedAt, deletedWithId',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('conversations')
+          .toCollection()
+          .modify((conversation) => {
+            if (conversation.kind === undefined) conversation.kind = 'chat'
+          })
+      )
+    // v11: credentials can be kept out of the table or encrypted, and name an INI profile
+    this.version(11)
+      .stores({
+        conversations: 'id, createdAt, updatedAt, deletedAt',
+        nodes: 'id, conversationId, parentId, createdAt, branchIndex, bookmark.createdAt, deletedAt, deletedWithId',
+        settings: 'id',
+        searchTokens: '[token+nodeId], token, nodeId, conversationId',
+      })
+      .upgrade((tx) =>
+        tx
+          .table('settings')
+          .toCollection()
+          .modify((settings) => {
+            if (settings.credentialStorage === undefined) settings.credentialStorage = 'plaintext'
+            if (settings.encryptedCredentials === undefined) settings.encryptedCredentials = null
+            if (settings.credentialProfile === undefined) settings.credentialProfile = ''
+          })
+      )
   }
 }
 
@@ -54,25 +326,37 @@ export const db = new LoomDatabase()
 // Default settings
 export const DEFAULT_SETTINGS: Settings = {
   id: 'default',
+  name: 'Default',
+  provider: 'bedrock-converse',
   credentials: `[default]
 aws_access_key_id=YOUR_ACCESS_KEY
 aws_secret_access_key=YOUR_SECRET_KEY`,
+  credentialStorage: 'plaintext',
+  encryptedCredentials: null,
+  credentialProfile: '',
   region: 'us-east-1',
+  apiKey: '',
+  baseUrl: '',
   modelId: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
   maxTokens: 4096,
   temperature: 1.0,
   systemPrompt: 'You are Claude, a helpful AI assistant.',
   extendedThinkingEnabled: false,
-  thinkingBudget: 4096,
+  thinkingBudget: 2048,
+  branchCount: 1,
+  continuationMode: 'merge',
 }
 
+export const MAX_BRANCH_COUNT = 8
+
 export async function getSettings(): Promise<Settings> {
   const settings = await db.settings.get('default')
   if (!settings) {
     await db.settings.put(DEFAULT_SETTINGS)
     return DEFAULT_SETTINGS
   }
-  return settings
+  // Fill in fields added after the row was first saved
+  return { ...DEFAULT_SETTINGS, ...settings }
 }
 
 export async function saveSettings(settings: Partial<Settings>): Promise<void> {
@@ -80,16 +364,73 @@ export async function saveSettings(settings: Partial<Settings>): Promise<void> {
   await db.settings.put({ ...current, ...settings, id: 'default' })
 }
 
+// Profile helpers
+export async function getProfiles(): Promise<Settings[]> {
+  // Make sure the default profile exists
+  await getSettings()
+  const profiles = await db.settings.toArray()
+  return profiles
+    .map((p) => ({ ...DEFAULT_SETTINGS, ...p }))
+    .sort((a, b) => (a.id === 'default' ? -1 : b.id === 'default' ? 1 : a.name.localeCompare(b.name)))
+}
+
+export async function getProfile(id: string | null): Promise<Settings> {
+  const profile = id ? await db.settings.get(id) : undefined
+  if (!profile) return getSettings()
+  return { ...DEFAULT_SETTINGS, ...profile }
+}
+
+export async function saveProfile(profile: Settings): Promise<void> {
+  await db.settings.put(profile)
+}
+
+// New profiles start as a copy of an existing one
+export async function createProfile(name: string, base: Settings): Promise<Settings> {
+  const profile: Settings = { ...base, id: crypto.randomUUID(), name }
+  await db.settings.put(profile)
+  return profile
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+  if (id === 'default') return
+  await db.transaction('rw', [db.settings, db.conversations], async () => {
+    await db.settings.delete(id)
+    // Conversations bound to it fall back to the default profile
+    await db.conversations.filter((c) => c.profileId === id).modify({ profileId: null })
+  })
+}
+
+// Settings for generating in a conversation: its profile plus its overrides
+export async function resolveSettings(conversationId: string | null): Promise<Settings> {
+  const conversation = conversationId ? await db.conversations.get(conversationId) : undefined
+  if (!conversation) return getSettings()
+
+  const profile = await getProfile(conversation.profileId)
+  return {
+    ...profile,
+    ...conversation.settingsOverrides,
+    systemPrompt: conversation.systemPrompt ?? profile.systemPrompt,
+  }
+}
+
 // Conversation helpers
-export async function createConversation(title: string): Promise<Conversation> {
+export async function createConversation(
+  title: string,
+  kind: ConversationKind = 'chat'
+): Promise<Conversation> {
   const now = Date.now()
   const conversation: Conversation = {
     id: crypto.randomUUID(),
     title,
+    kind,
     createdAt: now,
     updatedAt: now,
     activeNodeId: null,
     deletedAt: null,
+    profileId: null,
+    settingsOverrides: null,
+    systemPrompt: null,
+    treeLayoutMode: 'vertical',
   }
   await db.conversations.put(conversation)
   return conversation
@@ -118,7 +459,8 @@ export async function restoreConversation(id: string): Promise<void> {
 }
 
 export async function permanentlyDeleteConversation(id: string): Promise<void> {
-  await db.transaction('rw', [db.conversations, db.nodes], async () => {
+  await db.transaction('rw', [db.conversations, db.nodes, db.searchTokens], async () => {
+    await db.searchTokens.where('conversationId').equals(id).delete()
     await db.nodes.where('conversationId').equals(id).delete()
     await db.conversations.delete(id)
   })
@@ -128,8 +470,116 @@ export async function renameConversation(id: string, title: string): Promise<voi
   await db.conversations.update(id, { title, updatedAt: Date.now() })
 }
 
+export async function updateConversationSettings(
+  id: string,
+  profileId: string | null,
+  settingsOverrides: SettingsOverrides | null
+): Promise<void> {
+  await db.conversations.update(id, { profileId, settingsOverrides, updatedAt: Date.now() })
+}
+
+export async function updateConversationSystemPrompt(
+  id: string,
+  systemPrompt: string | null
+): Promise<void> {
+  await db.conversations.update(id, { systemPrompt, updatedAt: Date.now() })
+}
+
+// Layout changes don't count as activity, so updatedAt is left alone
+export async function updateConversationTreeLayout(id: string, treeLayoutMode: TreeLayoutMode): Promise<void> {
+  await db.conversations.update(id, { treeLayoutMode })
+}
+
 export async function updateConversationActiveNode(id: string, activeNodeId: string): Promise<void> {
-  await db.conversations.update(id, { activeNodeId, updatedAt: Date.now() })
+  const now = Date.now()
+  await db.transaction('rw', [db.conversations, db.nodes], async () => {
+    await db.conversations.update(id, { activeNodeId, updatedAt: now })
+    await db.nodes.update(activeNodeId, { lastVisitedAt: now })
+  })
+}
+
+// Search index helpers
+function searchTokensFor(node: Node): SearchToken[] {
+  const contentTokens = new Set(tokenize(node.content))
+  const thinkingTokens = new Set(tokenize(node.thinkingContent))
+  return [...new Set([...contentTokens, ...thinkingTokens])].map((token) => ({
+    token,
+    nodeId: node.id,
+    conversationId: node.conversationId,
+    inContent: contentTokens.has(token),
+    inThinking: thinkingTokens.has(token),
+  }))
+}
+
+// Rebuild index rows for nodes whose text changed; call inside a transaction that includes searchTokens
+async function reindexNodes(ids: string[]): Promise<void> {
+  const nodes = await db.nodes.bulkGet(ids)
+  await db.searchTokens.where('nodeId').anyOf(ids).delete()
+  await db.searchTokens.bulkPut(
+    nodes.filter((n): n is Node => n !== undefined).flatMap(searchTokensFor)
+  )
+}
+
+export interface SearchHit {
+  node: Node
+  conversation: Conversation
+}
+
+// Nodes containing every word of the query; the last word matches as a prefix since it may still be typed
+export async function searchNodes(
+  query: string,
+  includeThinking: boolean,
+  limit: number = 100
+): Promise<SearchHit[]> {
+  const terms = tokenize(query)
+  if (terms.length === 0) return []
+  const nodeIds = async (entries: Collection<SearchToken, [string, string]>) => {
+    const rows = await entries.filter((e) => e.inContent || (includeThinking && e.inThinking)).toArray()
+    return new Set(rows.map((e) => e.nodeId))
+  }
+
+  // Whole words first, so a short prefix is only looked up among the nodes that have them
+  let candidates: string[] | null = null
+  for (const term of terms.slice(0, -1)) {
+    const ids = await nodeIds(db.searchTokens.where('token').equals(term))
+    candidates = candidates === null ? [...ids] : candidates.filter((id) => ids.has(id))
+    if (candidates.length === 0) return []
+  }
+  const prefix = terms[terms.length - 1]
+  const matches = await nodeIds(
+    candidates === null
+      ? db.searchTokens.where('token').startsWith(prefix)
+      : db.searchTokens.where('nodeId').anyOf(candidates).and((e) => e.token.startsWith(prefix))
+  )
+
+  if (matches.size <= limit) {
+    const nodes = (await db.nodes.bulkGet([...matches])).filter((n): n is Node => n !== undefined)
+    const hits = await withLiveConversations(nodes)
+    return hits.sort((a, b) => b.node.createdAt - a.node.createdAt)
+  }
+  // Too many to load: walk the nodes newest first and stop once the limit is reached
+  const deletedConversations = new Set(await db.conversations.where('deletedAt').above(0).primaryKeys())
+  const nodes = await db.nodes
+    .orderBy('createdAt')
+    .reverse()
+    .filter((n) => matches.has(n.id) && n.deletedAt === null && !deletedConversations.has(n.conversationId))
+    .limit(limit)
+    .toArray()
+  return withLiveConversations(nodes)
+}
+
+// Pair nodes with their conversation, dropping those in the recycle bin
+async function withLiveConversations(allNodes: Node[]): Promise<SearchHit[]> {
+  const nodes = allNodes.filter((n) => n.deletedAt === null)
+  const conversations = await db.conversations.bulkGet([...new Set(nodes.map((n) => n.conversationId))])
+  const liveConversations = new Map(
+    conversations
+      .filter((c): c is Conversation => c !== undefined && c.deletedAt === null)
+      .map((c) => [c.id, c])
+  )
+  return nodes
+    .filter((n) => liveConversations.has(n.conversationId))
+    .map((node) => ({ node, conversation: liveConversations.get(node.conversationId)! }))
 }
 
 // Node helpers
@@ -138,51 +588,394 @@ export async function createNode(
   parentId: string | null,
   role: ChatRole,
   content: string,
-  thinkingContent: string = ''
+  thinkingContent: string = '',
+  generation: GenerationMetadata | null = null,
+  truncated: boolean = false
 ): Promise<Node> {
-  // Get max branch index for this parent
-  let branchIndex = 0
-  if (parentId) {
-    const siblings = await db.nodes
-      .where('parentId')
-      .equals(parentId)
-      .toArray()
-    if (siblings.length > 0) {
-      branchIndex = Math.max(...siblings.map((s) => s.branchIndex)) + 1
+  // Read siblings and write in one transaction so parallel branches get distinct indexes
+  return db.transaction('rw', [db.nodes, db.searchTokens], async () => {
+    const branchIndex = await nextBranchIndex(conversationId, parentId)
+    const node: Node = {
+      id: crypto.randomUUID(),
+      conversationId,
+      parentId,
+      role,
+      content,
+      thinkingContent,
+      createdAt: Date.now(),
+      branchIndex,
+      generation,
+      truncated,
+      bookmark: null,
+      deletedAt: null,
+      deletedWithId: null,
     }
-  }
+    await db.nodes.put(node)
+    await db.searchTokens.bulkPut(searchTokensFor(node))
+    return node
+  })
+}
 
-  const node: Node = {
-    id: crypto.randomUUID(),
-    conversationId,
-    parentId,
-    role,
-    content,
-    thinkingContent,
-    createdAt: Date.now(),
-    branchIndex,
-  }
-  await db.nodes.put(node)
-  return node
+// One past the highest branch index under a parent (roots are siblings of each other)
+async function nextBranchIndex(conversationId: string, parentId: string | null): Promise<number> {
+  const siblings = parentId
+    ? await db.nodes.where('parentId').equals(parentId).toArray()
+    : await db.nodes
+        .where('conversationId')
+        .equals(conversationId)
+        .filter((n) => n.parentId === null)
+        .toArray()
+  return siblings.length > 0 ? Math.max(...siblings.map((s) => s.branchIndex)) + 1 : 0
 }
 
+// Live nodes only; pruned subtrees sit in the recycle bin until restored
 export async function getConversationNodes(conversationId: string): Promise<Node[]> {
-  return db.nodes.where('conversationId').equals(conversationId).toArray()
+  return db.nodes
+    .where('conversationId')
+    .equals(conversationId)
+    .filter((n) => n.deletedAt === null)
+    .toArray()
 }
 
 export async function getChildNodes(parentId: string): Promise<Node[]> {
   return db.nodes
     .where('parentId')
     .equals(parentId)
+    .filter((n) => n.deletedAt === null)
     .sortBy('branchIndex')
 }
 
+// Move a node and everything below it to the recycle bin
+export async function softDeleteSubtree(id: string): Promise<void> {
+  await db.transaction('rw', [db.nodes, db.conversations], async () => {
+    const node = await db.nodes.get(id)
+    if (!node || node.deletedAt !== null) return
+
+    // Subtrees pruned earlier keep their own recycle bin entry
+    const subtree = [node, ...(await getDescendantNodes(id))].filter((n) => n.deletedAt === null)
+    const now = Date.now()
+    await db.nodes.bulkUpdate(
+      subtree.map((n) => ({ key: n.id, changes: { deletedAt: now, deletedWithId: id } }))
+    )
+
+    // Keep the playhead on a surviving ancestor
+    const conversation = await db.conversations.get(node.conversationId)
+    if (conversation?.activeNodeId && subtree.some((n) => n.id === conversation.activeNodeId)) {
+      await db.conversations.update(conversation.id, {
+        activeNodeId: node.parentId,
+        updatedAt: now,
+      })
+    }
+  })
+}
+
+export interface DeletedSubtree {
+  root: Node
+  conversation: Conversation | undefined
+  nodeCount: number
+}
+
+export async function getDeletedSubtrees(): Promise<DeletedSubtree[]> {
+  const deleted = await db.nodes.where('deletedAt').above(0).toArray()
+  const roots = deleted
+    .filter((n) => n.deletedWithId === n.id)
+    .sort((a, b) => b.deletedAt! - a.deletedAt!)
+  const conversations = await db.conversations.bulkGet(roots.map((r) => r.conversationId))
+  return roots.map((root, i) => ({
+    root,
+    conversation: conversations[i],
+    nodeCount: deleted.filter((n) => n.deletedWithId === root.id).length,
+  }))
+}
+
+// Put a pruned subtree back under its original parent
+export async function restoreSubtree(id: string): Promise<void> {
+  await db.transaction('rw', db.nodes, async () => {
+    const root = await db.nodes.get(id)
+    if (!root) return
+    const parent = root.parentId ? await db.nodes.get(root.parentId) : undefined
+    if (root.parentId && !parent) {
+      throw new Error('The message this branch was attached to has been permanently deleted')
+    }
+    if (parent?.deletedWithId) {
+      // The parent was pruned separately; bring it back too so the branch is reachable
+      await restoreSubtree(parent.deletedWithId)
+    }
+    await db.nodes
+      .where('deletedWithId')
+      .equals(id)
+      .modify({ deletedAt: null, deletedWithId: null })
+  })
+}
+
+export async function permanentlyDeleteSubtree(id: string): Promise<void> {
+  await db.transaction('rw', [db.nodes, db.searchTokens], async () => {
+    const root = await db.nodes.get(id)
+    if (!root || root.deletedAt === null) return
+    // Subtrees pruned earlier inside this one would otherwise be left hanging from a missing parent
+    const ids = [id, ...(await getDescendantNodes(id)).map((n) => n.id)]
+    await db.searchTokens.where('nodeId').anyOf(ids).delete()
+    await db.nodes.bulkDelete(ids)
+  })
+}
+
+// Load a branch (root first) and check it can be attached under the target parent;
+// a null parent attaches it as a new root of the target conversation
+async function getGraftSubtree(
+  id: string,
+  conversationId: string,
+  parentId: string | null
+): Promise<Node[]> {
+  const root = await db.nodes.get(id)
+  if (!root || root.deletedAt !== null) throw new Error('Branch not found')
+  const subtree = [root, ...(await getDescendantNodes(id))]
+  if (parentId === null) return subtree
+
+  const parent = await db.nodes.get(parentId)
+  if (!parent || parent.deletedAt !== null || parent.conversationId !== conversationId) {
+    throw new Error('Target message not found')
+  }
+  return subtree
+}
+
+// Copy nodes with fresh ids; the node whose parent is outside the set hangs under parentId
+function cloneNodes(
+  nodes: Node[],
+  conversationId: string,
+  parentId: string | null,
+  keepBookmarks = false
+): Node[] {
+  const oldToNewId = new Map(nodes.map((n) => [n.id, crypto.randomUUID()]))
+  return nodes.map((node) => ({
+    ...node,
+    id: oldToNewId.get(node.id)!,
+    conversationId,
+    parentId: (node.parentId && oldToNewId.get(node.parentId)) || parentId,
+    lastVisitedAt: undefined,
+    // A copy leaves bookmarks with the original so the bookmark list doesn't fill with duplicates;
+    // a split takes them along since the original goes to the recycle bin
+    bookmark: keepBookmarks ? node.bookmark : null,
+  }))
+}
+
+// Re-parent a branch, possibly into another conversation. Moved nodes are marked
+// stale since they were generated from a different context.
+export async function moveSubtree(
+  id: string,
+  conversationId: string,
+  parentId: string | null
+): Promise<void> {
+  await db.transaction('rw', [db.nodes, db.conversations, db.searchTokens], async () => {
+    const subtree = await getGraftSubtree(id, conversationId, parentId)
+    // A copy gets new ids and can hang anywhere, but a moved branch can't go under itself
+    if (subtree.some((n) => n.id === parentId)) {
+      throw new Error('A branch cannot be attached under itself')
+    }
+    const root = subtree[0]
+    if (root.parentId === parentId && root.conversationId === conversationId) return
+
+    const now = Date.now()
+    const branchIndex = await nextBranchIndex(conversationId, parentId)
+    await db.nodes.update(id, { parentId, branchIndex })
+    // Pruned pieces inside the branch travel with it so they can still be restored
+    await db.nodes.bulkUpdate(
+      subtree.map((n) => ({ key: n.id, changes: { conversationId, stale: true } }))
+    )
+
+    if (root.conversationId !== conversationId) {
+      await reindexNodes(subtree.map((n) => n.id))
+      const source = await db.conversations.get(root.conversationId)
+      if (source?.activeNodeId && subtree.some((n) => n.id === source.activeNodeId)) {
+        await db.conversations.update(source.id, { activeNodeId: root.parentId, updatedAt: now })
+      }
+    }
+    await db.conversations.update(conversationId, { updatedAt: now })
+  })
+}
+
+// Duplicate a branch under another node, possibly in another conversation
+export async function copySubtree(
+  id: string,
+  conversationId: string,
+  parentId: string | null
+): Promise<Node> {
+  return db.transaction('rw', [db.nodes, db.conversations, db.searchTokens], async () => {
+    const subtree = (await getGraftSubtree(id, conversationId, parentId)).filter(
+      (n) => n.deletedAt === null
+    )
+    const copies = cloneNodes(subtree, conversationId, parentId).map((n) => ({ ...n, stale: true }))
+    copies[0].branchIndex = await nextBranchIndex(conversationId, parentId)
+
+    await db.nodes.bulkPut(copies)
+    await db.searchTokens.bulkPut(copies.flatMap(searchTokensFor))
+    await db.conversations.update(conversationId, { updatedAt: Date.now() })
+    return copies[0]
+  })
+}
+
+// Move a branch out into a new conversation. Its ancestors are copied along so the
+// branch keeps its context; the original goes to the recycle bin.
+export async function splitSubtree(id: string): Promise<Conversation> {
+  return db.transaction('rw', [db.nodes, db.conversations, db.searchTokens], async () => {
+    const node = await db.nodes.get(id)
+    const source = node && (await db.conversations.get(node.conversationId))
+    if (!node || !source) throw new Error('Branch not found')
+
+    const path = await buildLinearPath(source.id, id)
+    const subtree = (await getGraftSubtree(id, source.id, null)).filter((n) => n.deletedAt === null)
+    const now = Date.now()
+    const conversation: Conversation = {
+      ...source,
+      id: crypto.randomUUID(),
+      title: `${source.title} (split)`,
+      createdAt: now,
+      updatedAt: now,
+      activeNodeId: null,
+    }
+
+    // The copied path is the only way down to the branch; it stays bookmarked in the source only
+    const copies = cloneNodes([...path.slice(0, -1), ...subtree], conversation.id, null, true).map(
+      (copy, i) =>
+        i < path.length - 1
+          ? { ...copy, branchIndex: 0, bookmark: null }
+          : i === path.length - 1
+            ? { ...copy, branchIndex: 0 }
+            : copy
+    )
+    conversation.activeNodeId = copies[path.length - 1].id
+
+    await db.conversations.put(conversation)
+    await db.nodes.bulkPut(copies)
+    await db.searchTokens.bulkPut(copies.flatMap(searchTokensFor))
+    await softDeleteSubtree(id)
+    return conversation
+  })
+}
+
 export async function updateNodeContent(id: string, content: string): Promise<void> {
-  await db.nodes.update(id, { content })
+  await db.transaction('rw', [db.nodes, db.searchTokens], async () => {
+    await db.nodes.update(id, { content })
+    await reindexNodes([id])
+  })
 }
 
 export async function updateNodeThinking(id: string, thinkingContent: string): Promise<void> {
-  await db.nodes.update(id, { thinkingContent })
+  await db.transaction('rw', [db.nodes, db.searchTokens], async () => {
+    await db.nodes.update(id, { thinkingContent })
+    await reindexNodes([id])
+  })
+}
+
+// Pass null to remove the bookmark
+export async function setNodeBookmark(id: string, bookmark: Bookmark | null): Promise<void> {
+  await db.nodes.update(id, { bookmark })
+}
+
+// Bookmarked nodes, newest first, across all live conversations or just one
+export async function getBookmarkedNodes(conversationId?: string): Promise<SearchHit[]> {
+  const nodes = await db.nodes.where('bookmark.createdAt').above(0).reverse().toArray()
+  return withLiveConversations(
+    conversationId ? nodes.filter((n) => n.conversationId === conversationId) : nodes
+  )
+}
+
+// Store the result of continuing a node's own text (assistant prefill)
+export async function saveNodeContinuation(
+  id: string,
+  content: string,
+  generation: GenerationMetadata | null,
+  truncated: boolean
+): Promise<void> {
+  await db.transaction('rw', [db.nodes, db.searchTokens], async () => {
+    const node = await db.nodes.get(id)
+    if (!node) return
+    await db.nodes.update(id, {
+      content,
+      truncated,
+      generation: mergeGeneration(node.generation, generation),
+    })
+    await reindexNodes([id])
+    // Anything already generated below was based on the shorter text
+    const descendants = await getDescendantNodes(id)
+    await db.nodes.bulkUpdate(descendants.map((n) => ({ key: n.id, changes: { stale: true } })))
+  })
+}
+
+// Keep the original config but account for the tokens and time of every pass
+function mergeGeneration(
+  previous: GenerationMetadata | null,
+  next: GenerationMetadata | null
+): GenerationMetadata | null {
+  if (!previous || !next) return next ?? previous
+  const add = (a: number | null, b: number | null) => (a === null && b === null ? null : (a ?? 0) + (b ?? 0))
+  return {
+    ...previous,
+    inputTokens: add(previous.inputTokens, next.inputTokens),
+    outputTokens: add(previous.outputTokens, next.outputTokens),
+    latencyMs: add(previous.latencyMs, next.latencyMs),
+    stopReason: next.stopReason,
+  }
+}
+
+// Collect every node below a node (not including the node itself)
+export async function getDescendantNodes(id: string): Promise<Node[]> {
+  const descendants: Node[] = []
+  let frontier = [id]
+  while (frontier.length > 0) {
+    const children = await db.nodes.where('parentId').anyOf(frontier).toArray()
+    descendants.push(...children)
+    frontier = children.map((c) => c.id)
+  }
+  return descendants
+}
+
+// Index nodes by parent id, each child list ordered by branchIndex (roots under null)
+export function buildChildrenIndex(nodes: Node[]): Map<string | null, Node[]> {
+  const index = new Map<string | null, Node[]>()
+  for (const node of nodes) {
+    const children = index.get(node.parentId)
+    if (children) {
+      children.push(node)
+    } else {
+      index.set(node.parentId, [node])
+    }
+  }
+  for (const children of index.values()) {
+    children.sort((a, b) => a.branchIndex - b.branchIndex)
+  }
+  return index
+}
+
+// Pick the node to show when switching to a branch: the most recently visited
+// node in its subtree, otherwise follow first children down to a leaf
+export async function resolveBranchTip(id: string): Promise<string> {
+  const branch = await db.nodes.get(id)
+  if (!branch) return id
+
+  const subtree = [branch, ...(await getDescendantNodes(id))].filter((n) => n.deletedAt === null)
+  const visited = subtree
+    .filter((n) => n.lastVisitedAt !== undefined)
+    .sort((a, b) => b.lastVisitedAt! - a.lastVisitedAt!)
+  if (visited.length > 0) return visited[0].id
+
+  const childrenIndex = buildChildrenIndex(subtree)
+  let current = branch
+  while (true) {
+    const children = childrenIndex.get(current.id)
+    if (!children) break
+    current = children[0]
+  }
+  return current.id
+}
+
+// Overwrite a node's text and flag everything generated below it as stale
+export async function editNodeInPlace(id: string, content: string): Promise<void> {
+  await db.transaction('rw', [db.nodes, db.searchTokens], async () => {
+    await db.nodes.update(id, { content })
+    await reindexNodes([id])
+    const descendants = await getDescendantNodes(id)
+    await db.nodes.bulkUpdate(descendants.map((n) => ({ key: n.id, changes: { stale: true } })))
+  })
 }
 
 // Build linear path from root to a specific node or to the deepest leaf
@@ -195,8 +988,10 @@ export async function buildLinearPath(
 
   const nodeMap = new Map(allNodes.map((n) => [n.id, n]))
 
-  // Find root node (no parent)
-  const rootNode = allNodes.find((n) => n.parentId === null)
+  // Find first root node (no parent); edited roots fork into sibling roots
+  const rootNode = allNodes
+    .filter((n) => n.parentId === null)
+    .sort((a, b) => a.branchIndex - b.branchIndex)[0]
   if (!rootNode) return []
 
   if (targetNodeId) {
@@ -230,52 +1025,172 @@ export async function buildLinearPath(
 export async function exportConversation(conversationId: string): Promise<string> {
   const conversation = await db.conversations.get(conversationId)
   const nodes = await getConversationNodes(conversationId)
-  return JSON.stringify({ conversation, nodes }, null, 2)
+  if (!conversation) return JSON.stringify({ conversation, nodes }, null, 2)
+
+  // Pin the effective system prompt so the file reproduces the same context elsewhere
+  const settings = await resolveSettings(conversationId)
+  return JSON.stringify(
+    { conversation: { ...conversation, systemPrompt: settings.systemPrompt }, nodes },
+    null,
+    2
+  )
+}
+
+// Writes a parsed import under fresh ids; records come from parseImportFile, which fills every field
+export async function importConversation(conversation: Conversation, nodes: Node[]): Promise<Conversation> {
+  const oldToNewId = new Map<string, string>()
+  const newConversationId = crypto.randomUUID()
+  for (const node of nodes) {
+    oldToNewId.set(node.id, crypto.randomUUID())
+  }
+
+  const newConversation: Conversation = {
+    ...conversation,
+    id: newConversationId,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    activeNodeId: conversation.activeNodeId ? oldToNewId.get(conversation.activeNodeId) || null : null,
+    deletedAt: null,
+    // Profiles are local to this browser, but the overrides travel with the file
+    profileId: null,
+  }
+
+  const newNodes: Node[] = nodes.map((node) => ({
+    ...node,
+    deletedAt: null,
+    deletedWithId: null,
+    id: oldToNewId.get(node.id)!,
+    conversationId: newConversationId,
+    parentId: node.parentId ? oldToNewId.get(node.parentId) || null : null,
+  }))
+
+  await db.transaction('rw', [db.conversations, db.nodes, db.searchTokens], async () => {
+    await db.conversations.put(newConversation)
+    await db.nodes.bulkPut(newNodes)
+    await db.searchTokens.bulkPut(newNodes.flatMap(searchTokensFor))
+  })
+
+  return newConversation
+}
+
+export type RestoreMode = 'merge' | 'replace'
+
+// Every row of the database except the search index, which is rebuilt on restore
+export interface DatabaseRecords {
+  conversations: Conversation[]
+  nodes: Node[]
+  settings: Settings[]
 }
 
-// Import conversation from JSON
-export async function importConversation(json: string): Promise<Conversation | null> {
-  try {
-    const data = JSON.parse(json)
-    const { conversation, nodes } = data as { conversation: Conversation; nodes: Node[] }
+export interface RestoreSummary {
+  conversationsAdded: number
+  // Already here under the same id; only their missing nodes were added
+  conversationsMerged: number
+  // Same title and messages as a conversation here under another id, e.g. an earlier import
+  duplicatesSkipped: number
+  nodesAdded: number
+  profilesAdded: number
+}
+
+// Order-independent hash of a conversation's title and messages
+function conversationFingerprint(conversation: Conversation, nodes: Node[]): string {
+  const lines = nodes.map((n) => `${n.role}\u0000${n.content}`).sort()
+  const text = [conversation.title, ...lines].join('\u0001')
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193)
+  return `${nodes.length}:${(hash >>> 0).toString(16)}`
+}
 
-    // Generate new IDs
-    const oldToNewId = new Map<string, string>()
-    const newConversationId = crypto.randomUUID()
-    oldToNewId.set(conversation.id, newConversationId)
+// Replace wipes every table first. Merge keeps every row already here and adds the rest:
+// unknown conversations, missing nodes of known ones and unknown profiles.
+export async function restoreDatabase(
+  records: DatabaseRecords,
+  mode: RestoreMode,
+  credentialsIncluded: boolean
+): Promise<RestoreSummary> {
+  const summary: RestoreSummary = {
+    conversationsAdded: 0,
+    conversationsMerged: 0,
+    duplicatesSkipped: 0,
+    nodesAdded: 0,
+    profilesAdded: 0,
+  }
 
-    for (const node of nodes) {
-      oldToNewId.set(node.id, crypto.randomUUID())
+  await db.transaction('rw', [db.conversations, db.nodes, db.settings, db.searchTokens], async () => {
+    const localProfiles = new Map((await db.settings.toArray()).map((p) => [p.id, p]))
+    if (mode === 'replace') {
+      await Promise.all([db.conversations.clear(), db.nodes.clear(), db.settings.clear(), db.searchTokens.clear()])
     }
 
-    const newConversation: Conversation = {
-      ...conversation,
-      id: newConversationId,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      activeNodeId: conversation.activeNodeId ? oldToNewId.get(conversation.activeNodeId) || null : null,
-      deletedAt: null,
+    const localConversations = new Map<string, Conversation>(
+      mode === 'merge' ? (await db.conversations.toArray()).map((c) => [c.id, c]) : []
+    )
+    const localNodeIds = new Set<string>(mode === 'merge' ? await db.nodes.toCollection().primaryKeys() : [])
+
+    const nodesByConversation = new Map<string, Node[]>()
+    for (const node of records.nodes) {
+      const list = nodesByConversation.get(node.conversationId) ?? []
+      list.push(node)
+      nodesByConversation.set(node.conversationId, list)
     }
 
-    const newNodes: Node[] = nodes.map((node) => ({
-      ...node,
-      id: oldToNewId.get(node.id)!,
-      conversationId: newConversationId,
-      parentId: node.parentId ? oldToNewId.get(node.parentId) || null : null,
-    }))
+    const fingerprints = new Set<string>()
+    if (mode === 'merge') {
+      for (const conversation of localConversations.values()) {
+        const nodes = await db.nodes.where('conversationId').equals(conversation.id).toArray()
+        fingerprints.add(conversationFingerprint(conversation, nodes))
+      }
+    }
 
-    await db.transaction('rw', [db.conversations, db.nodes], async () => {
-      await db.conversations.put(newConversation)
-      await db.nodes.bulkPut(newNodes)
-    })
+    const conversations: Conversation[] = []
+    const nodes: Node[] = []
+    for (const conversation of records.conversations) {
+      const conversationNodes = nodesByConversation.get(conversation.id) ?? []
+      if (localConversations.has(conversation.id)) {
+        const missing = conversationNodes.filter((n) => !localNodeIds.has(n.id))
+        if (missing.length > 0) summary.conversationsMerged++
+        nodes.push(...missing)
+        continue
+      }
+      const fingerprint = conversationFingerprint(conversation, conversationNodes)
+      if (fingerprints.has(fingerprint)) {
+        summary.duplicatesSkipped++
+        continue
+      }
+      fingerprints.add(fingerprint)
+      conversations.push(conversation)
+      nodes.push(...conversationNodes.filter((n) => !localNodeIds.has(n.id)))
+      summary.conversationsAdded++
+    }
+    summary.nodesAdded = nodes.length
 
-    return newConversation
-  } catch {
-    return null
-  }
+    // Profiles saved without credentials or API keys keep the ones this browser already has
+    const profiles = records.settings
+      .filter((profile) => mode === 'replace' || !localProfiles.has(profile.id))
+      .map((profile) => {
+        if (credentialsIncluded) return profile
+        const local = localProfiles.get(profile.id)
+        return {
+          ...profile,
+          credentials: local?.credentials ?? DEFAULT_SETTINGS.credentials,
+          credentialStorage: local?.credentialStorage ?? DEFAULT_SETTINGS.credentialStorage,
+          encryptedCredentials: local?.encryptedCredentials ?? null,
+          apiKey: local?.apiKey ?? '',
+        }
+      })
+    summary.profilesAdded = profiles.filter((p) => !localProfiles.has(p.id)).length
+
+    await db.conversations.bulkPut(conversations)
+    await db.nodes.bulkPut(nodes)
+    await db.searchTokens.bulkPut(nodes.flatMap(searchTokensFor))
+    await db.settings.bulkPut(profiles)
+    if (!(await db.settings.get('default'))) await db.settings.put(DEFAULT_SETTINGS)
+  })
+
+  return summary
 }
 
-// Cleanup old deleted conversations (older than 7 days)
+// Cleanup old deleted conversations and pruned subtrees (older than 7 days)
 export async function cleanupOldDeleted(): Promise<void> {
   const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000
   const oldDeleted = await db.conversations
@@ -285,4 +1200,15 @@ export async function cleanupOldDeleted(): Promise<void> {
   for (const conv of oldDeleted) {
     await permanentlyDeleteConversation(conv.id)
   }
+
+  // Pruned subtrees follow the same retention
+  const oldSubtrees = await db.nodes
+    .where('deletedAt')
+    .below(sevenDaysAgo)
+    .filter((n) => n.deletedWithId === n.id)
+    .toArray()
+
+  for (const root of oldSubtrees) {
+    await permanentlyDeleteSubtree(root.id)
+  }
 }
@@ -0,0 +1,113 @@
+export type DiffKind = 'same' | 'added' | 'removed'
+
+export interface DiffPart {
+  text: string
+  kind: DiffKind
+}
+
+// Beyond this many edits the texts are unrelated enough that a full replace reads better
+const MAX_EDIT_DISTANCE = 4000
+
+// Words, whitespace runs and single punctuation marks are separate tokens so spacing and
+// punctuation changes show up without swallowing the surrounding words
+function splitWords(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_']+|[^\s\p{L}\p{N}_']/gu) ?? []
+}
+
+// Word-level diff from `before` to `after`
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = splitWords(before)
+  const b = splitWords(after)
+
+  // Regenerations usually share an opening and a closing, so strip those before diffing
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const parts: DiffPart[] = []
+  const push = (kind: DiffKind, text: string) => {
+    if (!text) return
+    const last = parts[parts.length - 1]
+    if (last?.kind === kind) last.text += text
+    else parts.push({ kind, text })
+  }
+
+  push('same', a.slice(0, start).join(''))
+  const middle = myersDiff(a.slice(start, endA), b.slice(start, endB))
+  if (middle) {
+    for (const { kind, token } of middle) push(kind, token)
+  } else {
+    push('removed', a.slice(start, endA).join(''))
+    push('added', b.slice(start, endB).join(''))
+  }
+  push('same', a.slice(endA).join(''))
+  return parts
+}
+
+export function countChangedWords(parts: DiffPart[]): { added: number; removed: number } {
+  const count = (kind: DiffKind) =>
+    parts
+      .filter((p) => p.kind === kind)
+      .reduce((sum, p) => sum + (p.text.match(/[\p{L}\p{N}]+/gu)?.length ?? 0), 0)
+  return { added: count('added'), removed: count('removed') }
+}
+
+// Myers' O(ND) shortest edit script. Returns null when the edit distance exceeds the limit.
+function myersDiff(a: string[], b: string[]): { kind: DiffKind; token: string }[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // v as it was before each round, trimmed to the diagonals that round can read
+  const trace: Int32Array[] = []
+
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found) return null
+
+  // Walk back from the end, reading each round's snapshot
+  const ops: { kind: DiffKind; token: string }[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]
+    const at = (k: number) => snapshot[k + d + 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: 'same', token: a[--x] })
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ kind: 'added', token: b[--y] })
+      else ops.push({ kind: 'removed', token: a[--x] })
+    }
+  }
+  return ops.reverse()
+}
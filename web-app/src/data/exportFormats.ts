@@ -0,0 +1,225 @@
+import {
+  type Node,
+  db,
+  buildChildrenIndex,
+  buildLinearPath,
+  exportConversation,
+  getConversationNodes,
+} from './db'
+
+export type ExportFormat = 'json' | 'markdown' | 'html' | 'text'
+
+// Which nodes go into a readable export; JSON always carries the whole tree
+export type ExportScope = 'active' | 'path' | 'tree'
+
+export interface ExportOptions {
+  format: ExportFormat
+  scope: ExportScope
+  // End of the path for the 'path' scope
+  nodeId?: string | null
+  includeThinking: boolean
+}
+
+export interface ExportFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+const FORMAT_FILES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+}
+
+// Nodes in depth-first order, each numbered so branches can point back at their parent
+interface ExportEntry {
+  node: Node
+  number: number
+  // Set when the parent isn't the entry right before this one
+  replyTo: number | null
+  // 1-based position among siblings, when there is more than one
+  alternative: { index: number; count: number } | null
+}
+
+export async function buildExport(conversationId: string, options: ExportOptions): Promise<ExportFile> {
+  const conversation = await db.conversations.get(conversationId)
+  const title = conversation?.title ?? 'Conversation'
+  const { extension, mimeType } = FORMAT_FILES[options.format]
+  const filename = `${title}.${extension}`
+
+  if (options.format === 'json') {
+    return { filename, mimeType, content: await exportConversation(conversationId) }
+  }
+
+  let nodes: Node[]
+  if (options.scope === 'tree') {
+    nodes = await getConversationNodes(conversationId)
+  } else {
+    const endId = options.scope === 'path' ? options.nodeId : conversation?.activeNodeId
+    nodes = await buildLinearPath(conversationId, endId ?? null)
+  }
+  const childrenIndex = buildChildrenIndex(nodes)
+
+  let content: string
+  if (conversation?.kind === 'completion' && options.scope !== 'tree' && options.format !== 'html') {
+    // A single path through a completion document is just its text
+    const text = nodes.map((n) => n.content).join('')
+    content = options.format === 'markdown' ? `# ${title}\n\n${text}\n` : text
+  } else if (options.format === 'html') {
+    content = toHtml(title, childrenIndex, options.includeThinking)
+  } else {
+    const entries = numberEntries(childrenIndex)
+    content =
+      options.format === 'markdown'
+        ? toMarkdown(title, entries, options.includeThinking)
+        : toTranscript(title, entries, options.includeThinking)
+  }
+  return { filename, mimeType, content }
+}
+
+function numberEntries(childrenIndex: Map<string | null, Node[]>): ExportEntry[] {
+  const entries: ExportEntry[] = []
+  const numbers = new Map<string, number>()
+  const stack = [...(childrenIndex.get(null) ?? [])].reverse()
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    const number = entries.length + 1
+    numbers.set(node.id, number)
+    const parentNumber = node.parentId ? (numbers.get(node.parentId) ?? null) : null
+    const siblings = childrenIndex.get(node.parentId) ?? []
+    entries.push({
+      node,
+      number,
+      replyTo: parentNumber !== null && parentNumber !== number - 1 ? parentNumber : null,
+      alternative:
+        siblings.length > 1 ? { index: siblings.indexOf(node) + 1, count: siblings.length } : null,
+    })
+    stack.push(...[...(childrenIndex.get(node.id) ?? [])].reverse())
+  }
+  return entries
+}
+
+const roleName = (node: Node) => (node.role === 'user' ? 'User' : 'Assistant')
+
+// "reply to #3, alternative 2 of 3" for entries that don't simply follow the previous one
+function branchNote(entry: ExportEntry): string {
+  const notes = [
+    ...(entry.replyTo !== null ? [`reply to #${entry.replyTo}`] : []),
+    ...(entry.alternative ? [`alternative ${entry.alternative.index} of ${entry.alternative.count}`] : []),
+  ]
+  return notes.join(', ')
+}
+
+function toMarkdown(title: string, entries: ExportEntry[], includeThinking: boolean): string {
+  const numbered = entries.some((e) => e.alternative)
+  const sections = entries.map((entry) => {
+    const note = branchNote(entry)
+    const heading = numbered
+      ? `## #${entry.number} ${roleName(entry.node)}${note ? ` (${note})` : ''}`
+      : `## ${roleName(entry.node)}`
+    const thinking =
+      includeThinking && entry.node.thinkingContent
+        ? `> **Thinking**\n>\n${entry.node.thinkingContent
+            .split('\n')
+            .map((line) => `> ${line}`.trimEnd())
+            .join('\n')}\n\n`
+        : ''
+    return `${heading}\n\n${thinking}${entry.node.content}\n`
+  })
+  return `# ${title}\n\n${sections.join('\n')}`
+}
+
+function toTranscript(title: string, entries: ExportEntry[], includeThinking: boolean): string {
+  const numbered = entries.some((e) => e.alternative)
+  const turns = entries.map((entry) => {
+    const note = branchNote(entry)
+    const label = numbered
+      ? `[#${entry.number}${note ? `, ${note}` : ''}] ${roleName(entry.node)}:`
+      : `${roleName(entry.node)}:`
+    const thinking =
+      includeThinking && entry.node.thinkingContent
+        ? `(thinking)\n${entry.node.thinkingContent}\n(end of thinking)\n\n`
+        : ''
+    return `${label}\n${thinking}${entry.node.content}\n`
+  })
+  return `${title}\n${'='.repeat(title.length)}\n\n${turns.join('\n')}`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem;
+    background: #121212; color: #e0e0e0; line-height: 1.5; }
+  .message { border-radius: 8px; padding: 0.75rem 1rem; margin: 0.75rem 0; white-space: pre-wrap; }
+  .user { background: #2d1b4e; }
+  .assistant { background: #1e1e1e; border: 1px solid #333; }
+  .role { font-size: 0.75rem; opacity: 0.7; margin-bottom: 0.25rem; }
+  .thinking { font-size: 0.9rem; opacity: 0.75; border-left: 3px solid #555; padding-left: 0.75rem;
+    margin-bottom: 0.5rem; }
+  details.branch { border-left: 2px solid #BB86FC; padding-left: 0.75rem; margin: 0.5rem 0; }
+  details.branch > summary { cursor: pointer; color: #BB86FC; }
+`
+
+// Single-child chains stay flat; every fork becomes a set of collapsible branches
+function toHtml(
+  title: string,
+  childrenIndex: Map<string | null, Node[]>,
+  includeThinking: boolean
+): string {
+  const renderMessage = (node: Node) => {
+    const thinking =
+      includeThinking && node.thinkingContent
+        ? `<details class="thinking"><summary>Thinking</summary>${escapeHtml(node.thinkingContent)}</details>`
+        : ''
+    return `<div class="message ${node.role}"><div class="role">${roleName(node)}</div>${thinking}${escapeHtml(node.content)}</div>`
+  }
+
+  const renderBranches = (branches: Node[]): string => {
+    if (branches.length === 1) return renderThread(branches[0])
+    return branches
+      .map((child, i) => {
+        const preview = escapeHtml(child.content.replace(/\s+/g, ' ').slice(0, 80))
+        return `<details class="branch"${i === 0 ? ' open' : ''}><summary>Branch ${i + 1} of ${branches.length}: ${preview}</summary>${renderThread(child)}</details>`
+      })
+      .join('\n')
+  }
+
+  const renderThread = (start: Node): string => {
+    const parts: string[] = []
+    let node = start
+    while (true) {
+      parts.push(renderMessage(node))
+      const children = childrenIndex.get(node.id) ?? []
+      if (children.length !== 1) {
+        if (children.length > 1) parts.push(renderBranches(children))
+        break
+      }
+      node = children[0]
+    }
+    return parts.join('\n')
+  }
+
+  const roots = childrenIndex.get(null) ?? []
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${roots.length > 0 ? renderBranches(roots) : ''}
+</body>
+</html>
+`
+}
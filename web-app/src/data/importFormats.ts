@@ -0,0 +1,585 @@
+import {
+  type Bookmark,
+  type ChatRole,
+  type Conversation,
+  type ConversationKind,
+  type GenerationMetadata,
+  type Node,
+  type ProviderId,
+  type TreeLayoutMode,
+  importConversation,
+} from './db'
+
+export type ImportFormat =
+  | 'bedrock-loom'
+  | 'android-conversation'
+  | 'android-tree'
+  | 'loomsidian'
+  | 'nested-tree'
+  | 'claude'
+  | 'chatgpt'
+
+export const IMPORT_FORMAT_NAMES: Record<ImportFormat, string> = {
+  'bedrock-loom': 'Bedrock Loom export',
+  'android-conversation': 'Android app conversation export',
+  'android-tree': 'Android app Loom tree',
+  loomsidian: 'loomsidian tree',
+  'nested-tree': 'Loom/bonsai tree',
+  claude: 'claude.ai export',
+  chatgpt: 'ChatGPT export',
+}
+
+// Records ready for importConversation, still carrying the ids from the file
+export interface ConversationImport {
+  conversation: Conversation
+  nodes: Node[]
+}
+
+export interface ParsedImport {
+  format: ImportFormat
+  conversations: ConversationImport[]
+  // Conversations in a multi-conversation file that couldn't be read, with the reason
+  skipped: string[]
+}
+
+// Common shape the foreign formats are converted to before becoming records
+interface ImportedMessage {
+  id: string
+  parentId: string | null
+  role: ChatRole
+  content: string
+  thinkingContent?: string
+  createdAt?: number
+  bookmark?: Bookmark | null
+  generation?: GenerationMetadata | null
+}
+
+interface ImportedConversation {
+  title: string
+  // Base-model looms become completion documents
+  kind: ConversationKind
+  createdAt?: number
+  updatedAt?: number
+  systemPrompt?: string | null
+  activeId?: string | null
+  // Siblings in the order they should be numbered
+  messages: ImportedMessage[]
+}
+
+type JsonRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asString = (value: unknown): string | null => (typeof value === 'string' ? value : null)
+
+// Accepts epoch milliseconds, epoch seconds (ChatGPT) and ISO strings (claude.ai)
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e12 ? Math.round(value * 1000) : value
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value)
+    if (!Number.isNaN(parsed)) return parsed
+  }
+  return undefined
+}
+
+const FORMAT_HINT =
+  'Expected a Bedrock Loom or Android app export, a loomsidian, Loom or bonsai tree, ' +
+  'or a conversations.json from claude.ai or ChatGPT.'
+
+export function detectImportFormat(data: unknown): ImportFormat | null {
+  if (Array.isArray(data)) {
+    const first = data.find(isRecord)
+    if (!first) return null
+    if ('mapping' in first) return 'chatgpt'
+    if ('chat_messages' in first) return 'claude'
+    return null
+  }
+  if (!isRecord(data)) return null
+  if (isRecord(data.conversation) && Array.isArray(data.nodes)) {
+    // The Android app writes roles as its enum names, USER and ASSISTANT
+    const roles = data.nodes.filter(isRecord).map((n) => n.role)
+    return roles.some((r) => r === 'USER' || r === 'ASSISTANT') ? 'android-conversation' : 'bedrock-loom'
+  }
+  if ('rootId' in data && isRecord(data.nodes)) return 'android-tree'
+  if (isRecord(data.nodes) && 'current' in data) return 'loomsidian'
+  if (isRecord(data.state) && Object.values(data.state).some((s) => isRecord(s) && isRecord(s.nodes))) {
+    return 'loomsidian'
+  }
+  if ('mapping' in data) return 'chatgpt'
+  if ('chat_messages' in data) return 'claude'
+  if (isRecord(data.root) || Array.isArray(data.children)) return 'nested-tree'
+  return null
+}
+
+// Reads any supported file into records; throws with a description of what was wrong
+export function parseImportFile(text: string): ParsedImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`The file isn't valid JSON: ${e instanceof Error ? e.message : String(e)}`)
+  }
+
+  const format = detectImportFormat(data)
+  if (!format) throw new Error(`Unrecognised file format. ${FORMAT_HINT}`)
+
+  // Each entry converts one conversation, so a bad one doesn't sink the rest of the file
+  const entries: { label: string; convert: () => ConversationImport }[] = []
+  switch (format) {
+    case 'bedrock-loom':
+    case 'android-conversation':
+      entries.push({ label: 'Conversation', convert: () => fromOwnFormat(data as JsonRecord) })
+      break
+    case 'android-tree':
+      entries.push({ label: 'Tree', convert: () => toRecords(fromAndroidTree(data as JsonRecord)) })
+      break
+    case 'loomsidian': {
+      const record = data as JsonRecord
+      const notes: [string, unknown][] = isRecord(record.state)
+        ? Object.entries(record.state)
+        : [['Loomsidian tree', record]]
+      for (const [path, note] of notes) {
+        entries.push({ label: path, convert: () => toRecords(fromLoomsidian(path, note)) })
+      }
+      break
+    }
+    case 'nested-tree':
+      entries.push({ label: 'Tree', convert: () => toRecords(fromNestedTree(data as JsonRecord)) })
+      break
+    case 'claude':
+    case 'chatgpt': {
+      const list = Array.isArray(data) ? data : [data]
+      if (list.length === 0) throw new Error('The file contains no conversations.')
+      list.forEach((item, i) => {
+        const label = (isRecord(item) && asString(item.name ?? item.title)) || `Conversation ${i + 1}`
+        entries.push({
+          label,
+          convert: () => toRecords(format === 'claude' ? fromClaude(item) : fromChatGpt(item)),
+        })
+      })
+      break
+    }
+  }
+
+  const conversations: ConversationImport[] = []
+  const skipped: string[] = []
+  for (const { label, convert } of entries) {
+    try {
+      conversations.push(convert())
+    } catch (e) {
+      skipped.push(`${label}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+  if (conversations.length === 0) {
+    const reason = entries.length === 1 ? skipped[0].replace(/^[^:]*: /, '') : skipped.join('; ')
+    throw new Error(`Couldn't read this ${IMPORT_FORMAT_NAMES[format]}. ${reason}`)
+  }
+  return { format, conversations, skipped }
+}
+
+export async function importFile(
+  text: string
+): Promise<{ format: ImportFormat; conversations: Conversation[]; skipped: string[] }> {
+  const parsed = parseImportFile(text)
+  const conversations: Conversation[] = []
+  for (const { conversation, nodes } of parsed.conversations) {
+    conversations.push(await importConversation(conversation, nodes))
+  }
+  return { format: parsed.format, conversations, skipped: parsed.skipped }
+}
+
+// Every parent exists and following parents always ends at a root
+function checkTree(nodes: { id: string; parentId: string | null }[]) {
+  if (nodes.length === 0) throw new Error('It has no messages.')
+  const parents = new Map<string, string | null>()
+  for (const { id, parentId } of nodes) {
+    if (!id) throw new Error('A message has no id.')
+    if (parents.has(id)) throw new Error(`Message ${id} appears twice.`)
+    parents.set(id, parentId)
+  }
+  const reachesRoot = new Set<string>()
+  for (const { id } of nodes) {
+    const seen = new Set<string>()
+    let child: string | null = null
+    let current: string | null = id
+    while (current !== null && !reachesRoot.has(current)) {
+      if (seen.has(current)) throw new Error(`Message ${id} is part of a parent cycle.`)
+      const parentId: string | null | undefined = parents.get(current)
+      if (parentId === undefined) throw new Error(`Message ${child} refers to missing parent ${current}.`)
+      seen.add(current)
+      child = current
+      current = parentId
+    }
+    for (const s of seen) reachesRoot.add(s)
+  }
+}
+
+function newConversationRecord(fields: Partial<Conversation> & { title: string }): Conversation {
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    kind: 'chat',
+    createdAt: now,
+    updatedAt: now,
+    activeNodeId: null,
+    deletedAt: null,
+    profileId: null,
+    settingsOverrides: null,
+    systemPrompt: null,
+    treeLayoutMode: 'vertical',
+    ...fields,
+  }
+}
+
+// Follows first children from the first root, for files that don't say where the reader was
+function firstLeaf(nodes: { id: string; parentId: string | null }[]): string | null {
+  const firstChild = new Map<string | null, string>()
+  for (const { id, parentId } of nodes) {
+    if (!firstChild.has(parentId)) firstChild.set(parentId, id)
+  }
+  let current = firstChild.get(null) ?? null
+  while (current !== null && firstChild.has(current)) current = firstChild.get(current)!
+  return current
+}
+
+function toRecords(imported: ImportedConversation): ConversationImport {
+  const { messages } = imported
+  checkTree(messages)
+
+  const siblingCounts = new Map<string | null, number>()
+  const conversationId = crypto.randomUUID()
+  const nodes: Node[] = messages.map((message) => {
+    const branchIndex = siblingCounts.get(message.parentId) ?? 0
+    siblingCounts.set(message.parentId, branchIndex + 1)
+    return {
+      id: message.id,
+      conversationId,
+      parentId: message.parentId,
+      role: message.role,
+      content: message.content,
+      thinkingContent: message.thinkingContent ?? '',
+      createdAt: message.createdAt ?? imported.createdAt ?? Date.now(),
+      branchIndex,
+      generation: message.generation ?? null,
+      bookmark: message.bookmark ?? null,
+      deletedAt: null,
+      deletedWithId: null,
+    }
+  })
+
+  const activeNodeId =
+    imported.activeId && messages.some((m) => m.id === imported.activeId)
+      ? imported.activeId
+      : firstLeaf(messages)
+  const conversation = newConversationRecord({
+    id: conversationId,
+    title: imported.title.trim() || 'Imported conversation',
+    kind: imported.kind,
+    createdAt: imported.createdAt ?? Date.now(),
+    updatedAt: imported.updatedAt ?? imported.createdAt ?? Date.now(),
+    activeNodeId,
+    systemPrompt: imported.systemPrompt ?? null,
+  })
+  return { conversation, nodes }
+}
+
+// This app's own export, or the Android app's conversation export of the same shape
+function fromOwnFormat(data: JsonRecord): ConversationImport {
+  const conversation = data.conversation as JsonRecord
+  const rawNodes = data.nodes as unknown[]
+  const nodes: Node[] = rawNodes.map((raw, i) => {
+    if (!isRecord(raw)) throw new Error(`Node ${i + 1} isn't an object.`)
+    const id = asString(raw.id)
+    if (!id) throw new Error(`Node ${i + 1} has no id.`)
+    const role = asString(raw.role)?.toLowerCase()
+    if (role !== 'user' && role !== 'assistant') {
+      throw new Error(`Node ${id} has an unknown role "${String(raw.role)}".`)
+    }
+    if (typeof raw.content !== 'string') throw new Error(`Node ${id} has no text content.`)
+    return {
+      ...(raw as unknown as Node),
+      id,
+      parentId: asString(raw.parentId),
+      role,
+      thinkingContent: asString(raw.thinkingContent) ?? '',
+      createdAt: toTimestamp(raw.createdAt) ?? Date.now(),
+      branchIndex: typeof raw.branchIndex === 'number' ? raw.branchIndex : 0,
+      generation: isRecord(raw.generation)
+        ? {
+            ...(raw.generation as unknown as GenerationMetadata),
+            provider: (raw.generation.provider as ProviderId | undefined) ?? 'bedrock-converse',
+          }
+        : null,
+      bookmark: (raw.bookmark as Bookmark | undefined) ?? null,
+      deletedAt: null,
+      deletedWithId: null,
+    }
+  })
+  checkTree(nodes)
+
+  const activeNodeId = asString(conversation.activeNodeId)
+  return {
+    conversation: newConversationRecord({
+      title: asString(conversation.title) || 'Imported conversation',
+      kind: conversation.kind === 'completion' ? 'completion' : 'chat',
+      activeNodeId: activeNodeId && nodes.some((n) => n.id === activeNodeId) ? activeNodeId : firstLeaf(nodes),
+      settingsOverrides: (conversation.settingsOverrides as Conversation['settingsOverrides']) ?? null,
+      systemPrompt: asString(conversation.systemPrompt),
+      treeLayoutMode: (asString(conversation.treeLayoutMode) as TreeLayoutMode | null) ?? 'vertical',
+    }),
+    nodes,
+  }
+}
+
+// Android LoomTree: nodes keyed by id, children listed on each node. Fields at their default
+// value are left out of the file, so almost everything is optional.
+function fromAndroidTree(data: JsonRecord): ImportedConversation {
+  const nodes = data.nodes as JsonRecord
+  const rootId = asString(data.rootId)
+  if (!rootId || !isRecord(nodes[rootId])) throw new Error(`The root node ${String(data.rootId)} is missing.`)
+  const systemPrompt = asString(data.systemPrompt)
+
+  const messages: ImportedMessage[] = []
+  const visited = new Set<string>()
+  const stack: { id: string; parentId: string | null }[] = [{ id: rootId, parentId: null }]
+  while (stack.length > 0) {
+    const { id, parentId } = stack.pop()!
+    const raw = nodes[id]
+    if (!isRecord(raw)) throw new Error(`Node ${parentId} lists missing child ${id}.`)
+    if (visited.has(id)) throw new Error(`Node ${id} is listed as a child more than once.`)
+    visited.add(id)
+    const metadata = isRecord(raw.metadata) ? raw.metadata : {}
+    const annotations = isRecord(raw.annotations) ? raw.annotations : {}
+    const tags = Array.isArray(annotations.tags) ? annotations.tags.filter((t) => typeof t === 'string') : []
+    const content = asString(raw.content) ?? ''
+    const createdAt = toTimestamp(raw.createdAt)
+    const modelId = asString(metadata.modelId)
+
+    messages.push({
+      id,
+      parentId,
+      role: metadata.isUserContent ? 'user' : 'assistant',
+      content,
+      createdAt,
+      bookmark:
+        annotations.starred || tags.length > 0
+          ? {
+              label: asString(annotations.note) ?? content.slice(0, 40),
+              tags,
+              createdAt: createdAt ?? Date.now(),
+            }
+          : null,
+      generation: modelId
+        ? {
+            provider: 'bedrock-converse',
+            modelId,
+            region: '',
+            temperature: typeof metadata.temperature === 'number' ? metadata.temperature : null,
+            maxTokens: typeof metadata.maxTokens === 'number' ? metadata.maxTokens : 0,
+            systemPrompt: systemPrompt ?? '',
+            thinkingBudget: null,
+            inputTokens: typeof metadata.inputTokens === 'number' ? metadata.inputTokens : null,
+            outputTokens: typeof metadata.outputTokens === 'number' ? metadata.outputTokens : null,
+            stopReason: null,
+            latencyMs: typeof metadata.latencyMs === 'number' ? metadata.latencyMs : null,
+          }
+        : null,
+    })
+
+    const childIds = Array.isArray(raw.childIds) ? raw.childIds.filter((c) => typeof c === 'string') : []
+    for (let i = childIds.length - 1; i >= 0; i--) stack.push({ id: childIds[i], parentId: id })
+  }
+
+  return {
+    title: asString(data.name) ?? 'Android tree',
+    kind: 'completion',
+    createdAt: toTimestamp(data.createdAt),
+    updatedAt: toTimestamp(data.updatedAt),
+    systemPrompt,
+    activeId: asString(data.playheadId),
+    messages,
+  }
+}
+
+// loomsidian keeps one tree per note: text nodes keyed by id with a parent link. Base-model
+// looms have no roles, so the opening prompt is the user's and the continuations the model's.
+function fromLoomsidian(path: string, note: unknown): ImportedConversation {
+  if (!isRecord(note) || !isRecord(note.nodes)) throw new Error('It has no nodes.')
+  const messages: ImportedMessage[] = Object.entries(note.nodes).map(([id, raw]) => {
+    if (!isRecord(raw)) throw new Error(`Node ${id} isn't an object.`)
+    const parentId = asString(raw.parentId)
+    return {
+      id,
+      parentId,
+      role: parentId === null ? 'user' : 'assistant',
+      content: asString(raw.text) ?? '',
+      createdAt: toTimestamp(raw.lastVisited),
+      bookmark: raw.bookmarked
+        ? { label: (asString(raw.text) ?? '').slice(0, 40), tags: [], createdAt: Date.now() }
+        : null,
+    }
+  })
+  return {
+    title: path.replace(/^.*\//, '').replace(/\.md$/, ''),
+    kind: 'completion',
+    activeId: asString(note.current),
+    messages,
+  }
+}
+
+// Trees nested through `children`, as saved by the original Loom and bonsai
+function fromNestedTree(data: JsonRecord): ImportedConversation {
+  const roots = isRecord(data.root) ? [data.root] : (data.children as unknown[])
+  const messages: ImportedMessage[] = []
+  const stack: { raw: unknown; parentId: string | null; path: string }[] = roots
+    .map((raw, i) => ({ raw, parentId: null, path: `${i + 1}` }))
+    .reverse()
+  while (stack.length > 0) {
+    const { raw, parentId, path } = stack.pop()!
+    if (!isRecord(raw)) throw new Error(`Node ${path} isn't an object.`)
+    const id = asString(raw.id) ?? crypto.randomUUID()
+    const content = asString(raw.text) ?? asString(raw.content) ?? ''
+    messages.push({
+      id,
+      parentId,
+      role: parentId === null ? 'user' : 'assistant',
+      content,
+      createdAt: toTimestamp(raw.created ?? raw.createdAt),
+      bookmark: raw.bookmark ? { label: content.slice(0, 40), tags: [], createdAt: Date.now() } : null,
+    })
+    const children = Array.isArray(raw.children) ? raw.children : []
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ raw: children[i], parentId: id, path: `${path}.${i + 1}` })
+    }
+  }
+  return {
+    title: asString(data.name) ?? asString(data.title) ?? 'Imported tree',
+    kind: 'completion',
+    activeId: asString(data.selected_node_id) ?? asString(data.current),
+    messages,
+  }
+}
+
+// claude.ai conversations.json entry. Newer exports link messages with parent_message_uuid,
+// which keeps edited and regenerated branches; older ones are a flat list read as one path.
+function fromClaude(item: unknown): ImportedConversation {
+  if (!isRecord(item) || !Array.isArray(item.chat_messages)) throw new Error('It has no chat_messages list.')
+  const raws = item.chat_messages.filter(isRecord)
+  const ids = new Set(raws.map((m) => asString(m.uuid)).filter((id) => id !== null))
+  const linked = raws.some((m) => asString(m.parent_message_uuid) !== null)
+
+  let previousId: string | null = null
+  const messages: ImportedMessage[] = raws.map((raw, i) => {
+    const id = asString(raw.uuid) ?? `message-${i + 1}`
+    const blocks = Array.isArray(raw.content) ? raw.content.filter(isRecord) : []
+    const text = blocks
+      .filter((b) => b.type === 'text')
+      .map((b) => asString(b.text) ?? '')
+      .join('\n\n')
+    const thinking = blocks
+      .filter((b) => b.type === 'thinking')
+      .map((b) => asString(b.thinking) ?? '')
+      .join('\n\n')
+    const parentRef = asString(raw.parent_message_uuid)
+    // The first message points at a fixed placeholder uuid rather than null
+    const parentId = linked ? (parentRef && ids.has(parentRef) ? parentRef : null) : previousId
+    previousId = id
+    return {
+      id,
+      parentId,
+      role: raw.sender === 'human' ? 'user' : 'assistant',
+      content: text || (asString(raw.text) ?? ''),
+      thinkingContent: thinking,
+      createdAt: toTimestamp(raw.created_at),
+    }
+  })
+
+  return {
+    title: asString(item.name) || 'Claude conversation',
+    kind: 'chat',
+    createdAt: toTimestamp(item.created_at),
+    updatedAt: toTimestamp(item.updated_at),
+    activeId: asString(item.current_leaf_message_uuid) ?? previousId,
+    messages,
+  }
+}
+
+// ChatGPT conversations.json entry: a mapping of nodes with parent and children links. System,
+// tool and empty nodes are dropped and their children attached to the nearest kept ancestor;
+// reasoning ("thoughts") nodes become the thinking of the reply that follows them.
+function fromChatGpt(item: unknown): ImportedConversation {
+  if (!isRecord(item) || !isRecord(item.mapping)) throw new Error('It has no message mapping.')
+  const mapping = item.mapping
+
+  const readNode = (id: string) => {
+    const entry = mapping[id]
+    const message = isRecord(entry) && isRecord(entry.message) ? entry.message : null
+    const author = message && isRecord(message.author) ? asString(message.author.role) : null
+    const content = message && isRecord(message.content) ? message.content : {}
+    const parts = Array.isArray(content.parts) ? content.parts.filter((p) => typeof p === 'string') : []
+    const thoughts = Array.isArray(content.thoughts)
+      ? content.thoughts
+          .filter(isRecord)
+          .map((t) => asString(t.content) ?? '')
+          .join('\n\n')
+      : ''
+    return {
+      role: author === 'user' || author === 'assistant' ? (author as ChatRole) : null,
+      text: parts.join('\n').trim() ? parts.join('\n') : (asString(content.text) ?? ''),
+      thoughts,
+      createdAt: message ? toTimestamp(message.create_time) : undefined,
+      children: isRecord(entry) && Array.isArray(entry.children) ? (entry.children as unknown[]) : [],
+    }
+  }
+
+  const rootIds = Object.keys(mapping).filter((id) => {
+    const entry = mapping[id]
+    const parent = isRecord(entry) ? asString(entry.parent) : null
+    return parent === null || !(parent in mapping)
+  })
+  if (rootIds.length === 0) throw new Error('No message is a root; the parent links form a cycle.')
+
+  const messages: ImportedMessage[] = []
+  // Kept node each mapping id stands for, so the current node can be resolved afterwards
+  const keptFor = new Map<string, string | null>()
+  const stack: { id: string; parentId: string | null; thinking: string }[] = rootIds
+    .map((id) => ({ id, parentId: null, thinking: '' }))
+    .reverse()
+  while (stack.length > 0) {
+    const { id, parentId, thinking } = stack.pop()!
+    if (keptFor.has(id)) throw new Error(`Message ${id} is reached twice.`)
+    const node = readNode(id)
+    let keptId = parentId
+    let pendingThinking = [thinking, node.thoughts].filter(Boolean).join('\n\n')
+    if (node.role && node.text) {
+      messages.push({
+        id,
+        parentId,
+        role: node.role,
+        content: node.text,
+        thinkingContent: node.role === 'assistant' ? pendingThinking : '',
+        createdAt: node.createdAt,
+      })
+      keptId = id
+      pendingThinking = ''
+    }
+    keptFor.set(id, keptId)
+    for (let i = node.children.length - 1; i >= 0; i--) {
+      const childId = asString(node.children[i])
+      if (childId && childId in mapping) stack.push({ id: childId, parentId: keptId, thinking: pendingThinking })
+    }
+  }
+
+  const currentNode = asString(item.current_node)
+  return {
+    title: asString(item.title) || 'ChatGPT conversation',
+    kind: 'chat',
+    createdAt: toTimestamp(item.create_time),
+    updatedAt: toTimestamp(item.update_time),
+    activeId: currentNode ? (keptFor.get(currentNode) ?? null) : null,
+    messages,
+  }
+}
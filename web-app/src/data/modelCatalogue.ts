@@ -0,0 +1,115 @@
+// What a model accepts, so settings can be limited to values it won't reject
+export interface ModelCapabilities {
+  // Extended thinking can be requested
+  reasoning: boolean
+  maxOutputTokens: number
+  vision: boolean
+  // Whether a temperature may be sent while extended thinking is on (Claude requires the default)
+  temperatureWithThinking: boolean
+  maxTemperature: number
+}
+
+export interface CatalogueModel {
+  id: string
+  name: string
+  vendor: string
+  // null for models listed by Bedrock that the bundled catalogue doesn't know
+  capabilities: ModelCapabilities | null
+}
+
+const claude = (maxOutputTokens: number, reasoning: boolean, vision = true): ModelCapabilities => ({
+  reasoning,
+  maxOutputTokens,
+  vision,
+  temperatureWithThinking: false,
+  maxTemperature: 1,
+})
+
+const textModel = (maxOutputTokens: number, vision = false): ModelCapabilities => ({
+  reasoning: false,
+  maxOutputTokens,
+  vision,
+  temperatureWithThinking: false,
+  maxTemperature: 1,
+})
+
+// Matched against any part of a model ID, so Bedrock IDs, inference profiles and Anthropic API
+// IDs of one family share an entry; more specific patterns come first
+const FAMILIES: [pattern: string, capabilities: ModelCapabilities][] = [
+  ['claude-opus-4-5', claude(64000, true)],
+  ['claude-opus-4-1', claude(32000, true)],
+  ['claude-opus-4', claude(32000, true)],
+  ['claude-sonnet-4-5', claude(64000, true)],
+  ['claude-sonnet-4', claude(64000, true)],
+  ['claude-haiku-4-5', claude(64000, true)],
+  ['claude-3-7-sonnet', claude(64000, true)],
+  ['claude-3-5-sonnet', claude(8192, false)],
+  ['claude-3-5-haiku', claude(8192, false, false)],
+  ['claude-3-opus', claude(4096, false)],
+  ['claude-3-sonnet', claude(4096, false)],
+  ['claude-3-haiku', claude(4096, false)],
+  ['llama4', textModel(8192, true)],
+  ['llama3-2-90b', textModel(2048, true)],
+  ['llama3-2-11b', textModel(2048, true)],
+  ['llama3', textModel(2048)],
+  ['mistral-large', textModel(8192)],
+  ['pixtral-large', textModel(8192, true)],
+  ['mistral', textModel(8192)],
+  ['mixtral', textModel(4096)],
+  ['nova-premier', textModel(32000, true)],
+  ['nova-pro', textModel(10000, true)],
+  ['nova-lite', textModel(10000, true)],
+  ['nova-micro', textModel(10000)],
+  ['titan-text-premier', textModel(3072)],
+  ['titan-text', textModel(8192)],
+  ['command-r', textModel(4000)],
+]
+
+export function modelCapabilities(modelId: string): ModelCapabilities | null {
+  const id = modelId.toLowerCase()
+  return FAMILIES.find(([pattern]) => id.includes(pattern))?.[1] ?? null
+}
+
+const bundled = (id: string, name: string, vendor: string): CatalogueModel => ({
+  id,
+  name,
+  vendor,
+  capabilities: modelCapabilities(id),
+})
+
+// Offered before Bedrock has been asked what the account can use; newer Claude models need the
+// cross-region inference profile (us. prefix)
+export const BUNDLED_MODELS: CatalogueModel[] = [
+  bundled('us.anthropic.claude-opus-4-5-20251101-v1:0', 'Claude Opus 4.5', 'Anthropic'),
+  bundled('us.anthropic.claude-opus-4-1-20250805-v1:0', 'Claude Opus 4.1', 'Anthropic'),
+  bundled('us.anthropic.claude-opus-4-20250514-v1:0', 'Claude Opus 4', 'Anthropic'),
+  bundled('us.anthropic.claude-sonnet-4-5-20250929-v1:0', 'Claude Sonnet 4.5', 'Anthropic'),
+  bundled('us.anthropic.claude-sonnet-4-20250514-v1:0', 'Claude Sonnet 4', 'Anthropic'),
+  bundled('us.anthropic.claude-haiku-4-5-20251001-v1:0', 'Claude Haiku 4.5', 'Anthropic'),
+  bundled('us.anthropic.claude-3-7-sonnet-20250219-v1:0', 'Claude 3.7 Sonnet', 'Anthropic'),
+  bundled('anthropic.claude-3-5-sonnet-20241022-v2:0', 'Claude 3.5 Sonnet v2', 'Anthropic'),
+  bundled('anthropic.claude-3-5-haiku-20241022-v1:0', 'Claude 3.5 Haiku', 'Anthropic'),
+  bundled('anthropic.claude-3-haiku-20240307-v1:0', 'Claude 3 Haiku', 'Anthropic'),
+  bundled('us.meta.llama4-maverick-17b-instruct-v1:0', 'Llama 4 Maverick 17B', 'Meta'),
+  bundled('us.meta.llama3-3-70b-instruct-v1:0', 'Llama 3.3 70B Instruct', 'Meta'),
+  bundled('meta.llama3-1-405b-instruct-v1:0', 'Llama 3.1 405B Instruct', 'Meta'),
+  bundled('mistral.mistral-large-2407-v1:0', 'Mistral Large (24.07)', 'Mistral AI'),
+  bundled('mistral.mixtral-8x7b-instruct-v0:1', 'Mixtral 8x7B Instruct', 'Mistral AI'),
+  bundled('us.amazon.nova-pro-v1:0', 'Nova Pro', 'Amazon'),
+  bundled('us.amazon.nova-lite-v1:0', 'Nova Lite', 'Amazon'),
+  bundled('us.amazon.nova-micro-v1:0', 'Nova Micro', 'Amazon'),
+  bundled('amazon.titan-text-premier-v1:0', 'Titan Text Premier', 'Amazon'),
+  bundled('cohere.command-r-plus-v1:0', 'Command R+', 'Cohere'),
+]
+
+// "Reasoning, vision, up to 64,000 output tokens"
+export function describeCapabilities(capabilities: ModelCapabilities | null): string {
+  if (!capabilities) return 'Unknown model - limits are not checked'
+  const features = [
+    ...(capabilities.reasoning ? ['reasoning'] : []),
+    ...(capabilities.vision ? ['vision'] : []),
+    `up to ${capabilities.maxOutputTokens.toLocaleString()} output tokens`,
+  ]
+  const text = features.join(', ')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
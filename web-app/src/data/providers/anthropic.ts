@@ -0,0 +1,86 @@
+import { resolveApiKey } from '../credentials'
+import type { Provider, ProviderEvent, ProviderRequest } from './index'
+import { postJson, readServerSentEvents } from './http'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Messages API body without the model, shared with Bedrock InvokeModel
+export function messagesBody({ settings, turns, thinkingEnabled, temperature }: ProviderRequest) {
+  return {
+    max_tokens: settings.maxTokens,
+    ...(settings.systemPrompt ? { system: settings.systemPrompt } : {}),
+    messages: turns.map((turn) => ({ role: turn.role, content: turn.content })),
+    ...(temperature !== null ? { temperature } : {}),
+    ...(thinkingEnabled ? { thinking: { type: 'enabled', budget_tokens: settings.thinkingBudget } } : {}),
+  }
+}
+
+// The fields read from Messages API stream events; everything is optional since the shape isn't checked
+interface MessagesStreamEvent {
+  type?: string
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } }
+  delta?: { type?: string; text?: string; thinking?: string; stop_reason?: string }
+  usage?: { output_tokens?: number }
+  error?: { message?: string }
+  'amazon-bedrock-invocationMetrics'?: { invocationLatency?: number }
+}
+
+// Maps one Messages API stream event; Bedrock adds its own metrics to message_stop
+export function* messagesStreamEvents(data: unknown): Generator<ProviderEvent> {
+  const event = data as MessagesStreamEvent | null
+  switch (event?.type) {
+    case 'message_start':
+      yield {
+        type: 'usage',
+        inputTokens: event.message?.usage?.input_tokens,
+        outputTokens: event.message?.usage?.output_tokens,
+      }
+      break
+    case 'content_block_delta':
+      if (event.delta?.type === 'text_delta') yield { type: 'text', text: event.delta.text ?? '' }
+      if (event.delta?.type === 'thinking_delta') yield { type: 'thinking', text: event.delta.thinking ?? '' }
+      break
+    case 'message_delta':
+      if (event.delta?.stop_reason) yield { type: 'stop', reason: event.delta.stop_reason }
+      if (event.usage?.output_tokens !== undefined) {
+        yield { type: 'usage', outputTokens: event.usage.output_tokens }
+      }
+      break
+    case 'message_stop': {
+      const metrics = event['amazon-bedrock-invocationMetrics']
+      if (metrics?.invocationLatency !== undefined) yield { type: 'latency', ms: metrics.invocationLatency }
+      break
+    }
+    case 'error':
+      throw new Error(event.error?.message ?? 'The model returned an error')
+  }
+}
+
+export const anthropicProvider: Provider = {
+  id: 'anthropic',
+  name: 'Anthropic API',
+  supportsThinking: true,
+  defaultModelId: 'claude-sonnet-4-20250514',
+  defaultBaseUrl: 'https://api.anthropic.com',
+
+  async *stream(request) {
+    const { settings } = request
+    const apiKey = await resolveApiKey(settings, true)
+    const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '')
+    const response = await postJson(
+      this.name,
+      `${baseUrl}/v1/messages`,
+      {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        // The key is the user's own and never leaves their browser
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      { model: settings.modelId, stream: true, ...messagesBody(request) },
+      request.abortSignal
+    )
+    for await (const { data } of readServerSentEvents(response)) {
+      yield* messagesStreamEvents(JSON.parse(data) as unknown)
+    }
+  },
+}
@@ -0,0 +1,319 @@
+import {
+  BedrockRuntimeClient,
+  ConverseCommand,
+  ConverseStreamCommand,
+  InvokeModelWithResponseStreamCommand,
+  type Message,
+  type ContentBlock,
+  type ConversationRole,
+} from '@aws-sdk/client-bedrock-runtime'
+import { BedrockClient, ListFoundationModelsCommand, ListInferenceProfilesCommand } from '@aws-sdk/client-bedrock'
+import type { Settings } from '../db'
+import { type CatalogueModel, modelCapabilities } from '../modelCatalogue'
+import {
+  type AwsCredentials,
+  isExpiredTokenError,
+  markCredentialsExpired,
+  resolveCredentials,
+} from '../credentials'
+import type { Provider, ProviderEvent } from './index'
+import { messagesBody, messagesStreamEvents } from './anthropic'
+
+function configFor(region: string, creds: AwsCredentials) {
+  return {
+    region,
+    credentials: {
+      accessKeyId: creds.accessKeyId,
+      secretAccessKey: creds.secretAccessKey,
+      sessionToken: creds.sessionToken,
+    },
+  }
+}
+
+type ClientConfig = ReturnType<typeof configFor>
+
+// Shared by the runtime client and the control-plane client that lists models
+async function clientConfig(settings: Settings): Promise<ClientConfig> {
+  return configFor(settings.region, await resolveCredentials(settings))
+}
+
+async function createClient(settings: Settings): Promise<BedrockRuntimeClient> {
+  return new BedrockRuntimeClient(await clientConfig(settings))
+}
+
+// Runs a request with the profile's credentials. When AWS rejects the session token as expired,
+// marking it makes the next clientConfig ask for fresh credentials, and the request is tried once more.
+async function send<T>(settings: Settings, request: (config: ClientConfig) => Promise<T>): Promise<T> {
+  try {
+    return await request(await clientConfig(settings))
+  } catch (error) {
+    if (!isExpiredTokenError(error)) throw error
+    markCredentialsExpired(settings.id)
+    return request(await clientConfig(settings))
+  }
+}
+
+// Streaming counterpart of send; once something has been yielded the request can't be repeated, so a
+// token expiring part way only marks the credentials for the next request
+async function* sendStream<T>(
+  settings: Settings,
+  open: (client: BedrockRuntimeClient) => AsyncIterable<T>
+): AsyncGenerator<T> {
+  for (let attempt = 0; ; attempt++) {
+    let yielded = false
+    try {
+      for await (const item of open(await createClient(settings))) {
+        yielded = true
+        yield item
+      }
+      return
+    } catch (error) {
+      if (!isExpiredTokenError(error)) throw error
+      markCredentialsExpired(settings.id)
+      if (yielded || attempt > 0) {
+        throw new Error(
+          'The AWS session token expired during the request. You will be asked for fresh credentials ' +
+            'on the next try.'
+        )
+      }
+    }
+  }
+}
+
+// Text models the account can call on demand in the profile's region, plus inference profiles
+export async function listBedrockModels(settings: Settings): Promise<CatalogueModel[]> {
+  const { modelSummaries = [] } = await send(settings, (config) =>
+    new BedrockClient(config).send(new ListFoundationModelsCommand({ byOutputModality: 'TEXT' }))
+  )
+  const models: CatalogueModel[] = modelSummaries
+    .filter((m) => m.modelId && m.inferenceTypesSupported?.includes('ON_DEMAND'))
+    .map((m) => ({
+      id: m.modelId!,
+      name: m.modelName ?? m.modelId!,
+      vendor: m.providerName ?? '',
+      capabilities: modelCapabilities(m.modelId!),
+    }))
+
+  // Newer models are only reachable through a cross-region inference profile
+  // Profiles list the underlying model's ARN in each of their regions; the ID is the last part
+  const vendorById = new Map(modelSummaries.map((m) => [m.modelId, m.providerName ?? '']))
+  let nextToken: string | undefined
+  do {
+    const page = await send(settings, (config) =>
+      new BedrockClient(config).send(new ListInferenceProfilesCommand({ nextToken }))
+    )
+    for (const profile of page.inferenceProfileSummaries ?? []) {
+      if (!profile.inferenceProfileId || profile.status !== 'ACTIVE') continue
+      models.push({
+        id: profile.inferenceProfileId,
+        name: profile.inferenceProfileName ?? profile.inferenceProfileId,
+        vendor: vendorById.get(profile.models?.[0]?.modelArn?.split('/').pop()) ?? '',
+        capabilities: modelCapabilities(profile.inferenceProfileId),
+      })
+    }
+    nextToken = page.nextToken
+  } while (nextToken)
+
+  return models.sort((a, b) => a.vendor.localeCompare(b.vendor) || a.name.localeCompare(b.name))
+}
+
+// Smallest possible request against the profile's model, with the given credentials as they are so
+// the caller sees the raw AWS error; no retries, so throttling shows up on the first attempt
+export async function pingBedrock(settings: Settings, credentials: AwsCredentials): Promise<void> {
+  const client = new BedrockRuntimeClient({ ...configFor(settings.region, credentials), maxAttempts: 1 })
+  await client.send(
+    new ConverseCommand({
+      modelId: settings.modelId,
+      messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+      inferenceConfig: { maxTokens: 1 },
+    })
+  )
+}
+
+export const bedrockConverseProvider: Provider = {
+  id: 'bedrock-converse',
+  name: 'Bedrock Converse',
+  supportsThinking: true,
+  defaultModelId: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+  defaultBaseUrl: '',
+
+  async *stream({ settings, turns, thinkingEnabled, temperature, abortSignal }) {
+    const messages: Message[] = turns.map((turn) => ({
+      role: turn.role as ConversationRole,
+      content: [{ text: turn.content } as ContentBlock],
+    }))
+
+    const inferenceConfig: { maxTokens: number; temperature?: number } = {
+      maxTokens: settings.maxTokens,
+      ...(temperature !== null ? { temperature } : {}),
+    }
+
+    // Extended thinking goes through the model-specific request fields
+    const additionalModelRequestFields = thinkingEnabled
+      ? { thinking: { type: 'enabled', budget_tokens: settings.thinkingBudget } }
+      : undefined
+
+    const command = new ConverseStreamCommand({
+      modelId: settings.modelId,
+      messages,
+      system: settings.systemPrompt ? [{ text: settings.systemPrompt }] : undefined,
+      inferenceConfig,
+      additionalModelRequestFields,
+    })
+
+    const events = sendStream(settings, async function* (client) {
+      const response = await client.send(command, { abortSignal })
+      if (response.stream) yield* response.stream
+    })
+
+    for await (const event of events) {
+      const delta = event.contentBlockDelta?.delta
+      if (delta) {
+        if ('text' in delta && delta.text) {
+          yield { type: 'text', text: delta.text }
+        }
+        if ('reasoningContent' in delta) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const reasoning = delta.reasoningContent as any
+          if (reasoning?.text) yield { type: 'thinking', text: reasoning.text }
+        }
+      }
+
+      if (event.messageStop?.stopReason) {
+        yield { type: 'stop', reason: event.messageStop.stopReason }
+      }
+
+      if (event.metadata) {
+        yield {
+          type: 'usage',
+          inputTokens: event.metadata.usage?.inputTokens,
+          outputTokens: event.metadata.usage?.outputTokens,
+        }
+        if (event.metadata.metrics?.latencyMs !== undefined) {
+          yield { type: 'latency', ms: event.metadata.metrics.latencyMs }
+        }
+      }
+    }
+  },
+}
+
+// Request body for a text model; each family names the prompt and length fields differently
+function completionBody(modelId: string, prompt: string, maxTokens: number, temperature: number) {
+  const id = modelId.toLowerCase()
+  if (id.includes('meta.')) return { prompt, max_gen_len: maxTokens, temperature }
+  if (id.includes('amazon.titan')) {
+    return { inputText: prompt, textGenerationConfig: { maxTokenCount: maxTokens, temperature } }
+  }
+  // Mistral, Cohere, DeepSeek and most others
+  return { prompt, max_tokens: maxTokens, temperature }
+}
+
+// Where each model family puts its text and stop reason: Llama, Mistral, Titan, Cohere, and the
+// OpenAI-style and Anthropic completion shapes
+interface CompletionChunk {
+  generation?: string
+  outputs?: { text?: string; stop_reason?: string }[]
+  outputText?: string
+  generations?: { text?: string; finish_reason?: string }[]
+  choices?: { text?: string; stop_reason?: string; finish_reason?: string }[]
+  completion?: string
+  text?: string
+  stop_reason?: string
+  completionReason?: string
+  'amazon-bedrock-invocationMetrics'?: {
+    inputTokenCount?: number
+    outputTokenCount?: number
+    invocationLatency?: number
+  }
+}
+
+// Text and stop reason from a streamed chunk of any text model, plus Bedrock's own metrics
+function* completionChunkEvents(data: unknown): Generator<ProviderEvent> {
+  const chunk = (data ?? {}) as CompletionChunk
+  const text =
+    chunk.generation ??
+    chunk.outputs?.[0]?.text ??
+    chunk.outputText ??
+    chunk.generations?.[0]?.text ??
+    chunk.choices?.[0]?.text ??
+    chunk.completion ??
+    chunk.text
+  if (typeof text === 'string' && text) yield { type: 'text', text }
+
+  const stop =
+    chunk.stop_reason ??
+    chunk.outputs?.[0]?.stop_reason ??
+    chunk.completionReason ??
+    chunk.generations?.[0]?.finish_reason ??
+    chunk.choices?.[0]?.stop_reason ??
+    chunk.choices?.[0]?.finish_reason
+  if (typeof stop === 'string' && stop) yield { type: 'stop', reason: stop }
+
+  const metrics = chunk['amazon-bedrock-invocationMetrics']
+  if (metrics) {
+    yield { type: 'usage', inputTokens: metrics.inputTokenCount, outputTokens: metrics.outputTokenCount }
+    if (metrics.invocationLatency !== undefined) yield { type: 'latency', ms: metrics.invocationLatency }
+  }
+}
+
+// Decodes InvokeModel's response stream into JSON chunks
+async function* invokeStream(
+  settings: Settings,
+  command: InvokeModelWithResponseStreamCommand,
+  abortSignal?: AbortSignal
+): AsyncGenerator<unknown> {
+  const parts = sendStream(settings, async function* (client) {
+    const response = await client.send(command, { abortSignal })
+    if (response.body) yield* response.body
+  })
+
+  const decoder = new TextDecoder()
+  for await (const part of parts) {
+    if (part.chunk?.bytes) {
+      yield JSON.parse(decoder.decode(part.chunk.bytes)) as unknown
+    }
+    const exception =
+      part.internalServerException ??
+      part.modelStreamErrorException ??
+      part.validationException ??
+      part.throttlingException ??
+      part.modelTimeoutException ??
+      part.serviceUnavailableException
+    if (exception) throw new Error(exception.message ?? 'Bedrock stream error')
+  }
+}
+
+// InvokeModel with a raw Anthropic Messages body, for features Converse doesn't expose; text
+// models such as Llama and Mistral take raw completions
+export const bedrockInvokeProvider: Provider = {
+  id: 'bedrock-invoke',
+  name: 'Bedrock InvokeModel',
+  supportsThinking: true,
+  defaultModelId: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+  defaultBaseUrl: '',
+
+  async *stream(request) {
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: request.settings.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({ anthropic_version: 'bedrock-2023-05-31', ...messagesBody(request) }),
+    })
+
+    for await (const chunk of invokeStream(request.settings, command, request.abortSignal)) {
+      yield* messagesStreamEvents(chunk)
+    }
+  },
+
+  async *complete({ settings, prompt, temperature, abortSignal }) {
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: settings.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(completionBody(settings.modelId, prompt, settings.maxTokens, temperature)),
+    })
+    for await (const chunk of invokeStream(settings, command, abortSignal)) {
+      yield* completionChunkEvents(chunk)
+    }
+  },
+}
@@ -0,0 +1,75 @@
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+// POST with a JSON body; network failures become a readable error unless the request was aborted
+export async function postJson(
+  service: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  abortSignal?: AbortSignal
+): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: abortSignal,
+    })
+  } catch (error) {
+    if (abortSignal?.aborted) throw error
+    throw new Error(
+      `Couldn't reach ${service} at ${url}. Check that it is running and allows requests from this page (CORS).`
+    )
+  }
+  if (!response.ok) {
+    const text = await response.text().catch(() => '')
+    let message = text
+    try {
+      const parsed = JSON.parse(text)
+      message = parsed?.error?.message ?? parsed?.message ?? text
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    throw new Error(`${service} returned ${response.status}${message ? `: ${message}` : ''}`)
+  }
+  return response
+}
+
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith(':')) continue
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null
+}
+
+// Splits a text/event-stream body into events as they arrive
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += value
+    let boundary = buffer.search(/\r?\n\r?\n/)
+    while (boundary !== -1) {
+      const event = parseEvent(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '')
+      if (event) yield event
+      boundary = buffer.search(/\r?\n\r?\n/)
+    }
+  }
+  const last = parseEvent(buffer)
+  if (last) yield last
+}
@@ -0,0 +1,61 @@
+import type { ChatRole, ProviderId, Settings } from '../db'
+import { bedrockConverseProvider, bedrockInvokeProvider } from './bedrock'
+import { anthropicProvider } from './anthropic'
+import { openAiCompatibleProvider } from './openaiCompatible'
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+export interface ProviderRequest {
+  settings: Settings
+  // Alternating turns; a trailing assistant turn is prefill for the model to continue
+  turns: ChatMessage[]
+  thinkingEnabled: boolean
+  // null leaves the provider's default, as extended thinking requires
+  temperature: number | null
+  abortSignal?: AbortSignal
+}
+
+export interface CompletionRequest {
+  settings: Settings
+  // The whole document so far, continued as-is
+  prompt: string
+  temperature: number
+  abortSignal?: AbortSignal
+}
+
+// Streamed pieces of a response; text and thinking carry only the new part
+export type ProviderEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'usage'; inputTokens?: number; outputTokens?: number }
+  | { type: 'stop'; reason: string }
+  | { type: 'latency'; ms: number }
+
+export interface Provider {
+  id: ProviderId
+  name: string
+  // Whether extended thinking can be requested; reasoning models elsewhere may still stream it
+  supportsThinking: boolean
+  defaultModelId: string
+  // Used when the profile's base URL is empty; Bedrock endpoints come from the region instead
+  defaultBaseUrl: string
+  stream(request: ProviderRequest): AsyncGenerator<ProviderEvent>
+  // Raw text completion for base models; missing on chat-only APIs
+  complete?(request: CompletionRequest): AsyncGenerator<ProviderEvent>
+}
+
+export const PROVIDERS: Record<ProviderId, Provider> = {
+  'bedrock-converse': bedrockConverseProvider,
+  'bedrock-invoke': bedrockInvokeProvider,
+  anthropic: anthropicProvider,
+  'openai-compatible': openAiCompatibleProvider,
+}
+
+export const isBedrockProvider = (id: ProviderId) => id === 'bedrock-converse' || id === 'bedrock-invoke'
+
+export function getProvider(id: ProviderId): Provider {
+  return PROVIDERS[id] ?? bedrockConverseProvider
+}
@@ -0,0 +1,103 @@
+import type { Settings } from '../db'
+import { resolveApiKey } from '../credentials'
+import type { Provider, ProviderEvent } from './index'
+import { postJson, readServerSentEvents } from './http'
+
+// The fields read from chat and text completion chunks; servers differ in which they send
+interface CompletionChoice {
+  delta?: { content?: string; reasoning_content?: string; reasoning?: string }
+  text?: string
+  finish_reason?: string | null
+}
+
+interface ChatCompletionChunk {
+  choices?: CompletionChoice[]
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+  error?: { message?: string } | string
+}
+
+// Shared by the chat and completion streams, which differ only in where the text is
+async function* streamEvents(
+  response: Response,
+  textOf: (choice: CompletionChoice) => string | undefined
+): AsyncGenerator<ProviderEvent> {
+  for await (const { data } of readServerSentEvents(response)) {
+    if (data === '[DONE]') break
+    const chunk = JSON.parse(data) as ChatCompletionChunk
+    if (chunk.error) {
+      throw new Error(typeof chunk.error === 'string' ? chunk.error : (chunk.error.message ?? 'Server error'))
+    }
+    const choice = chunk.choices?.[0]
+    // llama.cpp and DeepSeek stream reasoning_content, Ollama and OpenRouter reasoning
+    const reasoning = choice?.delta?.reasoning_content ?? choice?.delta?.reasoning
+    if (reasoning) yield { type: 'thinking', text: reasoning }
+    const text = choice && textOf(choice)
+    if (text) yield { type: 'text', text }
+    if (choice?.finish_reason) yield { type: 'stop', reason: choice.finish_reason }
+    if (chunk.usage) {
+      yield {
+        type: 'usage',
+        inputTokens: chunk.usage.prompt_tokens,
+        outputTokens: chunk.usage.completion_tokens,
+      }
+    }
+  }
+}
+
+// Local servers usually run without a key
+async function authorization(settings: Settings): Promise<Record<string, string>> {
+  const apiKey = await resolveApiKey(settings, false)
+  return apiKey ? { authorization: `Bearer ${apiKey}` } : {}
+}
+
+// Chat and text Completions APIs as served by llama.cpp, Ollama, vLLM, LM Studio and OpenAI itself
+export const openAiCompatibleProvider: Provider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible server',
+  supportsThinking: false,
+  defaultModelId: 'local-model',
+  defaultBaseUrl: 'http://localhost:8080/v1',
+
+  async *stream({ settings, turns, temperature, abortSignal }) {
+    const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '')
+    const messages = [
+      ...(settings.systemPrompt ? [{ role: 'system', content: settings.systemPrompt }] : []),
+      ...turns.map((turn) => ({ role: turn.role, content: turn.content })),
+    ]
+    const response = await postJson(
+      this.name,
+      `${baseUrl}/chat/completions`,
+      await authorization(settings),
+      {
+        model: settings.modelId,
+        messages,
+        max_tokens: settings.maxTokens,
+        ...(temperature !== null ? { temperature } : {}),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      abortSignal
+    )
+
+    yield* streamEvents(response, (choice) => choice.delta?.content)
+  },
+
+  async *complete({ settings, prompt, temperature, abortSignal }) {
+    const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '')
+    const response = await postJson(
+      this.name,
+      `${baseUrl}/completions`,
+      await authorization(settings),
+      {
+        model: settings.modelId,
+        prompt,
+        max_tokens: settings.maxTokens,
+        temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      abortSignal
+    )
+    yield* streamEvents(response, (choice) => choice.text)
+  },
+}
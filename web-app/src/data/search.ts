@@ -0,0 +1,42 @@
+const MIN_TOKEN_LENGTH = 2
+const MAX_TOKEN_LENGTH = 40
+
+// Lower-cased, de-duplicated word tokens used by the search index
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>()
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)) {
+    const token = match[0]
+    if (token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH) {
+      tokens.add(token)
+    }
+  }
+  return [...tokens]
+}
+
+export interface SnippetPart {
+  text: string
+  match: boolean
+}
+
+// Cut a window of text around the first matching term and mark every term occurrence. Like the
+// index, terms match whole words and the last one (still being typed) the start of a word.
+export function buildSnippet(text: string, terms: string[], radius: number = 80): SnippetPart[] {
+  if (terms.length === 0) return [{ text: text.slice(0, radius * 2), match: false }]
+
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const alternatives = escaped.map((t, i) => (i === escaped.length - 1 ? t : `${t}(?![\\p{L}\\p{N}])`))
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives.join('|')})`, 'giu')
+
+  const first = text.search(pattern)
+  // Start on a word boundary so a cut-off word isn't mistaken for a match
+  const cut = Math.max(0, (first === -1 ? 0 : first) - radius)
+  const start = text.slice(0, cut).search(/[\p{L}\p{N}]*$/u)
+  const end = Math.min(text.length, (first === -1 ? 0 : first) + radius)
+  const window =
+    (start > 0 ? '...' : '') + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '...' : '')
+
+  return window
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.some((t) => t === part.toLowerCase()) }))
+}
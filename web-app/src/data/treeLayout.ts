@@ -0,0 +1,193 @@
+import { type Node, type TreeLayoutMode, buildChildrenIndex } from './db'
+
+export const NODE_RADIUS = 24
+
+// How nodes are drawn: small role circles, or cards with a preview of the text
+export type NodeShape = 'circle' | 'card'
+
+export interface NodeSize {
+  shape: NodeShape
+  width: number
+  height: number
+  // Distance between neighbouring leaves and between levels
+  spacingX: number
+  spacingY: number
+}
+
+export const NODE_SIZES: Record<NodeShape, NodeSize> = {
+  circle: { shape: 'circle', width: NODE_RADIUS * 2, height: NODE_RADIUS * 2, spacingX: 60, spacingY: 100 },
+  card: { shape: 'card', width: 160, height: 64, spacingX: 180, spacingY: 110 },
+}
+
+export interface LayoutNode {
+  node: Node
+  x: number
+  y: number
+  parent: LayoutNode | null
+  children: LayoutNode[]
+  // Set on a collapsed chain segment (compact layout): the single-child run it stands for,
+  // starting with `node`
+  hidden?: Node[]
+}
+
+export interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export interface TreeLayout {
+  roots: LayoutNode[]
+  // Every positioned node in depth-first order
+  nodes: LayoutNode[]
+  // Nodes hidden in a collapsed segment map to the segment
+  byId: Map<string, LayoutNode>
+  bounds: Bounds
+  size: NodeSize
+  mode: TreeLayoutMode
+}
+
+export interface TreeLayoutOptions {
+  mode?: TreeLayoutMode
+  // Compact layout: chain segments the user expanded, by the id of their first node
+  expanded?: Set<string>
+}
+
+// Shortest single-child run the compact layout collapses into a segment
+const MIN_COLLAPSED_RUN = 3
+
+// Changes whenever the shape of the tree does; text edits and bookmarks keep the same key
+export function treeStructureKey(nodes: Node[]): string {
+  return nodes.map((n) => `${n.id}:${n.parentId}:${n.branchIndex}`).join('|')
+}
+
+// Walks the tree with explicit stacks so very deep conversations can't overflow the call stack,
+// then places nodes by depth and leaf slot according to the layout mode
+export function computeTreeLayout(
+  allNodes: Node[],
+  size: NodeSize = NODE_SIZES.circle,
+  { mode = 'vertical', expanded = new Set() }: TreeLayoutOptions = {}
+): TreeLayout {
+  const childrenIndex = buildChildrenIndex(allNodes)
+  const roots: LayoutNode[] = []
+  const ordered: LayoutNode[] = []
+  const depths: number[] = []
+  const byId = new Map<string, LayoutNode>()
+
+  const place = (node: Node, depth: number, parent: LayoutNode | null, hidden?: Node[]) => {
+    const layoutNode: LayoutNode = { node, x: 0, y: 0, parent, children: [], hidden }
+    if (parent) parent.children.push(layoutNode)
+    else roots.push(layoutNode)
+    ordered.push(layoutNode)
+    depths.push(depth)
+    for (const n of hidden ?? [node]) byId.set(n.id, layoutNode)
+    return layoutNode
+  }
+
+  // A link in a linear run: the only child of its parent, with exactly one child itself
+  const isChainLink = (node: Node) =>
+    node.parentId !== null &&
+    childrenIndex.get(node.parentId)?.length === 1 &&
+    childrenIndex.get(node.id)?.length === 1
+
+  const stack: { node: Node; depth: number; parent: LayoutNode | null }[] = (
+    childrenIndex.get(null) ?? []
+  )
+    .map((node) => ({ node, depth: 0, parent: null }))
+    .reverse()
+  while (stack.length > 0) {
+    let { node, depth, parent } = stack.pop()!
+
+    if (mode === 'compact' && isChainLink(node)) {
+      const run: Node[] = []
+      while (isChainLink(node)) {
+        run.push(node)
+        node = childrenIndex.get(node.id)![0]
+      }
+      if (run.length >= MIN_COLLAPSED_RUN && !expanded.has(run[0].id)) {
+        parent = place(run[0], depth++, parent, run)
+      } else {
+        for (const link of run) parent = place(link, depth++, parent)
+      }
+    }
+
+    const layoutNode = place(node, depth, parent)
+    const children = childrenIndex.get(node.id) ?? []
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ node: children[i], depth: depth + 1, parent: layoutNode })
+    }
+  }
+
+  // Leaves take slots in depth-first order; parents are centred on their children
+  const slots = new Map<LayoutNode, number>()
+  let leafCount = 0
+  for (const layoutNode of ordered) {
+    if (layoutNode.children.length === 0) slots.set(layoutNode, leafCount++)
+  }
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    const { children } = ordered[i]
+    if (children.length > 0) {
+      slots.set(ordered[i], (slots.get(children[0])! + slots.get(children[children.length - 1])!) / 2)
+    }
+  }
+
+  const maxDepth = Math.max(0, ...depths)
+  ordered.forEach((layoutNode, i) => {
+    const slot = slots.get(layoutNode)!
+    const depth = depths[i]
+    if (mode === 'horizontal') {
+      // Levels advance by a node width, leaves stack by a node height
+      layoutNode.x = depth * (size.width + size.spacingY - size.height) + 50
+      layoutNode.y = slot * (size.height + size.spacingX - size.width) + 50
+    } else if (mode === 'radial') {
+      // Leaves share the circle evenly; rings spread out far enough for the outer leaves to fit
+      const ring = Math.max(
+        size.spacingY,
+        size.width + 20,
+        (leafCount * size.spacingX) / (2 * Math.PI * Math.max(1, maxDepth))
+      )
+      // Several roots sit on the first ring around an empty centre
+      const radius = (depth + (roots.length > 1 ? 1 : 0)) * ring
+      const angle = ((slot + 0.5) / Math.max(1, leafCount)) * Math.PI * 2 - Math.PI / 2
+      layoutNode.x = radius * Math.cos(angle)
+      layoutNode.y = radius * Math.sin(angle)
+    } else {
+      layoutNode.x = slot * size.spacingX + 50
+      layoutNode.y = depth * size.spacingY + 50
+    }
+  })
+
+  return { roots, nodes: ordered, byId, bounds: computeBounds(ordered, size), size, mode }
+}
+
+function computeBounds(nodes: LayoutNode[], size: NodeSize): Bounds {
+  if (nodes.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  for (const { x, y } of nodes) {
+    bounds.minX = Math.min(bounds.minX, x - size.width / 2)
+    bounds.minY = Math.min(bounds.minY, y - size.height / 2)
+    bounds.maxX = Math.max(bounds.maxX, x + size.width / 2)
+    bounds.maxY = Math.max(bounds.maxY, y + size.height / 2)
+  }
+  return bounds
+}
+
+// Whether a point in tree coordinates falls on a node
+export function hitTest(layoutNode: LayoutNode, size: NodeSize, x: number, y: number): boolean {
+  const dx = x - layoutNode.x
+  const dy = y - layoutNode.y
+  if (size.shape === 'circle') return dx * dx + dy * dy <= (size.width / 2) ** 2
+  return Math.abs(dx) <= size.width / 2 && Math.abs(dy) <= size.height / 2
+}
+
+export function collectSubtreeIds(layoutNode: LayoutNode): Set<string> {
+  const ids = new Set<string>()
+  const stack = [layoutNode]
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    for (const n of current.hidden ?? [current.node]) ids.add(n.id)
+    stack.push(...current.children)
+  }
+  return ids
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import {
+  Box,
+  AppBar,
+  Toolbar,
+  Typography,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Chip,
+} from '@mui/material'
+import { ArrowBack as BackIcon, Edit as EditIcon } from '@mui/icons-material'
+import {
+  type Bookmark,
+  type SearchHit,
+  getBookmarkedNodes,
+  setNodeBookmark,
+  updateConversationActiveNode,
+} from '../data/db'
+import BookmarkDialog from '../components/BookmarkDialog'
+
+// Lists bookmarks for one conversation, or for all of them when no id is in the route
+export default function BookmarksScreen() {
+  const { conversationId } = useParams<{ conversationId: string }>()
+  const navigate = useNavigate()
+  const [bookmarks, setBookmarks] = useState<SearchHit[]>([])
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [editing, setEditing] = useState<SearchHit | null>(null)
+
+  const loadBookmarks = useCallback(async () => {
+    setBookmarks(await getBookmarkedNodes(conversationId))
+  }, [conversationId])
+
+  useEffect(() => {
+    loadBookmarks()
+  }, [loadBookmarks])
+
+  const handleOpen = async (hit: SearchHit) => {
+    await updateConversationActiveNode(hit.conversation.id, hit.node.id)
+    navigate(`/chat/${hit.conversation.id}`)
+  }
+
+  const handleSaveBookmark = async (bookmark: Bookmark | null) => {
+    if (editing) {
+      await setNodeBookmark(editing.node.id, bookmark)
+      await loadBookmarks()
+    }
+    setEditing(null)
+  }
+
+  const allTags = [...new Set(bookmarks.flatMap((b) => b.node.bookmark?.tags ?? []))].sort()
+  const visible = tagFilter
+    ? bookmarks.filter((b) => b.node.bookmark?.tags.includes(tagFilter))
+    : bookmarks
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      <AppBar position="static">
+        <Toolbar>
+          <IconButton
+            edge="start"
+            color="inherit"
+            onClick={() => navigate(conversationId ? `/chat/${conversationId}` : '/')}
+          >
+            <BackIcon />
+          </IconButton>
+          <Typography variant="h6" sx={{ flexGrow: 1, ml: 1 }}>
+            {conversationId ? 'Conversation Bookmarks' : 'All Bookmarks'}
+          </Typography>
+        </Toolbar>
+      </AppBar>
+
+      {allTags.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, p: 2, pb: 0 }}>
+          {allTags.map((tag) => (
+            <Chip
+              key={tag}
+              label={tag}
+              size="small"
+              color={tagFilter === tag ? 'secondary' : 'default'}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+            />
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
+        {visible.length === 0 ? (
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              height: '100%',
+              color: 'text.secondary',
+            }}
+          >
+            <Typography>No bookmarks yet. Bookmark a message from its menu.</Typography>
+          </Box>
+        ) : (
+          <List>
+            {visible.map((hit) => (
+              <ListItem
+                key={hit.node.id}
+                disablePadding
+                secondaryAction={
+                  <IconButton edge="end" onClick={() => setEditing(hit)}>
+                    <EditIcon />
+                  </IconButton>
+                }
+              >
+                <ListItemButton onClick={() => handleOpen(hit)}>
+                  <ListItemText
+                    primary={hit.node.bookmark?.label}
+                    secondary={
+                      <>
+                        {!conversationId && `${hit.conversation.title} - `}
+                        {hit.node.content.slice(0, 120)}
+                        {hit.node.content.length > 120 ? '...' : ''}
+                        {hit.node.bookmark && hit.node.bookmark.tags.length > 0 && (
+                          <Box component="span" sx={{ display: 'block', mt: 0.5 }}>
+                            {hit.node.bookmark.tags.map((t) => `#${t}`).join(' ')}
+                          </Box>
+                        )}
+                      </>
+                    }
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+
+      <BookmarkDialog
+        open={editing !== null}
+        bookmark={editing?.node.bookmark ?? null}
+        defaultLabel={editing?.node.content.slice(0, 40) ?? ''}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveBookmark}
+      />
+    </Box>
+  )
+}
@@ -12,6 +12,9 @@ import {
   Menu,
   MenuItem,
   Divider,
+  Tooltip,
+  Button,
+  Alert,
 } from '@mui/material'
 import {
   ArrowBack as BackIcon,
@@ -20,21 +23,51 @@ import {
   ContentCopy as CopyIcon,
   Edit as EditIcon,
   Refresh as RegenerateIcon,
+  CallSplit as ScatterIcon,
+  Save as SaveIcon,
+  ChevronLeft as PrevIcon,
+  ChevronRight as NextIcon,
+  Stop as StopIcon,
+  PlayArrow as ContinueIcon,
+  SmartToy as PrefillIcon,
+  Tune as ProfileIcon,
+  Check as CheckIcon,
+  Star as StarIcon,
+  Bookmarks as BookmarksIcon,
+  Delete as DeleteIcon,
+  Compare as CompareIcon,
 } from '@mui/icons-material'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
-import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import {
   type Conversation,
+  type GenerationMetadata,
+  type ContinuationMode,
+  type Settings,
+  type SettingsOverrides,
+  type Bookmark,
   db,
   createNode,
   buildLinearPath,
+  buildChildrenIndex,
+  getConversationNodes,
+  resolveBranchTip,
   updateConversationActiveNode,
   renameConversation,
-  updateNodeContent,
+  editNodeInPlace,
+  saveNodeContinuation,
+  resolveSettings,
+  getProfiles,
+  updateConversationSettings,
+  updateConversationSystemPrompt,
+  setNodeBookmark,
+  softDeleteSubtree,
+  MAX_BRANCH_COUNT,
 } from '../data/db'
 import { chatStream } from '../data/bedrockClient'
+import MarkdownMessage from '../components/MarkdownMessage'
+import BookmarkDialog from '../components/BookmarkDialog'
+import ConversationSettingsDialog from '../components/ConversationSettingsDialog'
+import GenerationDetails from '../components/GenerationDetails'
+import ScatterView, { type ScatterBranch } from '../components/ScatterView'
 
 interface UiMessage {
   id: string
@@ -42,6 +75,12 @@ interface UiMessage {
   content: string
   thinkingContent: string
   isStreaming?: boolean
+  stale?: boolean
+  // Ids of this node and its siblings, ordered by branchIndex
+  siblingIds?: string[]
+  generation?: GenerationMetadata | null
+  truncated?: boolean
+  bookmark?: Bookmark | null
 }
 
 export default function ChatScreen() {
@@ -55,6 +94,17 @@ export default function ChatScreen() {
   const [editContent, setEditContent] = useState('')
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null)
   const [selectedMessage, setSelectedMessage] = useState<UiMessage | null>(null)
+  const [branchCount, setBranchCount] = useState(1)
+  const [scatter, setScatter] = useState<ScatterBranch[] | null>(null)
+  const [branchFocusId, setBranchFocusId] = useState<string | null>(null)
+  const [continuationMode, setContinuationMode] = useState<ContinuationMode>('merge')
+  const [prefillMode, setPrefillMode] = useState(false)
+  const [profiles, setProfiles] = useState<Settings[]>([])
+  const [profileMenuAnchor, setProfileMenuAnchor] = useState<null | HTMLElement>(null)
+  const [settingsDialogOpen, setSettingsDialogOpen] = useState(false)
+  const [bookmarkTarget, setBookmarkTarget] = useState<UiMessage | null>(null)
+  // Failures that leave no message behind to show them in
+  const [error, setError] = useState('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
 
@@ -66,15 +116,25 @@ export default function ChatScreen() {
       navigate('/')
       return
     }
+    if (conv.kind === 'completion') {
+      navigate(`/document/${conversationId}`, { replace: true })
+      return
+    }
     setConversation(conv)
 
     const path = await buildLinearPath(conversationId, conv.activeNodeId)
+    const childrenIndex = buildChildrenIndex(await getConversationNodes(conversationId))
     setMessages(
       path.map((node) => ({
         id: node.id,
         role: node.role,
         content: node.content,
         thinkingContent: node.thinkingContent,
+        stale: node.stale,
+        siblingIds: childrenIndex.get(node.parentId)?.map((n) => n.id),
+        generation: node.generation,
+        truncated: node.truncated,
+        bookmark: node.bookmark,
       }))
     )
   }, [conversationId, navigate])
@@ -83,10 +143,91 @@ export default function ChatScreen() {
     loadConversation()
   }, [loadConversation])
 
+  const loadSettings = useCallback(async () => {
+    if (!conversationId) return
+    const s = await resolveSettings(conversationId)
+    setBranchCount(s.branchCount)
+    setContinuationMode(s.continuationMode)
+    setProfiles(await getProfiles())
+  }, [conversationId])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const handleSelectProfile = async (profileId: string) => {
+    setProfileMenuAnchor(null)
+    if (!conversationId || !conversation) return
+    await updateConversationSettings(
+      conversationId,
+      profileId === 'default' ? null : profileId,
+      conversation.settingsOverrides
+    )
+    await loadConversation()
+    await loadSettings()
+  }
+
+  const handleSaveConversationSettings = async (
+    profileId: string | null,
+    overrides: SettingsOverrides | null,
+    systemPrompt: string | null
+  ) => {
+    setSettingsDialogOpen(false)
+    if (!conversationId) return
+    await updateConversationSettings(conversationId, profileId, overrides)
+    await updateConversationSystemPrompt(conversationId, systemPrompt)
+    await loadConversation()
+    await loadSettings()
+  }
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // Move to a neighbouring sibling and continue down its most recent path
+  const switchSibling = useCallback(
+    async (message: UiMessage, direction: -1 | 1) => {
+      if (!conversationId || !message.siblingIds || isLoading) return
+      const target = message.siblingIds[message.siblingIds.indexOf(message.id) + direction]
+      if (!target) return
+
+      const tipId = await resolveBranchTip(target)
+      await updateConversationActiveNode(conversationId, tipId)
+      setBranchFocusId(target)
+      await loadConversation()
+    },
+    [conversationId, isLoading, loadConversation]
+  )
+
+  // ←/→ switch siblings of the focused message, ↑/↓ move focus between branch points
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+
+      const branching = messages.filter((m) => (m.siblingIds?.length ?? 0) > 1)
+      if (branching.length === 0) return
+      const focusIndex = branching.findIndex((m) => m.id === branchFocusId)
+      const focused = focusIndex === -1 ? branching[branching.length - 1] : branching[focusIndex]
+
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault()
+        switchSibling(focused, e.key === 'ArrowLeft' ? -1 : 1)
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault()
+        const current = focusIndex === -1 ? branching.length - 1 : focusIndex
+        const next = Math.min(
+          branching.length - 1,
+          Math.max(0, current + (e.key === 'ArrowUp' ? -1 : 1))
+        )
+        setBranchFocusId(branching[next].id)
+      }
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [messages, branchFocusId, switchSibling])
+
   const generateTitle = async (firstMessage: string) => {
     if (!conversationId || !conversation) return
     // Generate title from first message (first 50 chars)
@@ -105,6 +246,20 @@ export default function ChatScreen() {
     // Determine parent node
     const parentId = messages.length > 0 ? messages[messages.length - 1].id : null
 
+    // Prefill mode: the input is the start of the assistant's reply for the model to continue
+    if (prefillMode && parentId) {
+      const prefillNode = await createNode(conversationId, parentId, 'assistant', userContent)
+      const prefillMessage: UiMessage = {
+        id: prefillNode.id,
+        role: 'assistant',
+        content: userContent,
+        thinkingContent: '',
+      }
+      setPrefillMode(false)
+      await continueFromMessage(prefillMessage, [...messages, prefillMessage], continuationMode)
+      return
+    }
+
     // Create user message node
     const userNode = await createNode(conversationId, parentId, 'user', userContent)
 
@@ -122,6 +277,11 @@ export default function ChatScreen() {
     }
     setMessages((prev) => [...prev, userMessage])
 
+    if (branchCount > 1) {
+      await scatterFromMessage(userMessage, [...messages, userMessage], branchCount)
+      return
+    }
+
     // Create streaming placeholder for assistant
     const placeholderId = crypto.randomUUID()
     const assistantMessage: UiMessage = {
@@ -133,8 +293,13 @@ export default function ChatScreen() {
     }
     setMessages((prev) => [...prev, assistantMessage])
 
+    // Streamed so far, kept if the generation fails part way
+    let partialContent = ''
+    let thinkingContent = ''
+
     try {
       abortControllerRef.current = new AbortController()
+      const signal = abortControllerRef.current.signal
 
       // Build conversation history
       const history = [...messages, userMessage].map((m) => ({
@@ -142,11 +307,11 @@ export default function ChatScreen() {
         content: m.content,
       }))
 
-      let thinkingContent = ''
-
-      const finalContent = await chatStream(
+      const result = await chatStream(
+        conversationId,
         history,
         (text) => {
+          partialContent = text
           setMessages((prev) =>
             prev.map((m) =>
               m.id === placeholderId ? { ...m, content: text } : m
@@ -161,16 +326,25 @@ export default function ChatScreen() {
             )
           )
         },
-        abortControllerRef.current.signal
+        signal
       )
 
-      // Save assistant response to database
+      // Stopped before anything arrived; an empty assistant turn would be rejected on the next send
+      if (signal.aborted && !result.content && !thinkingContent) {
+        await updateConversationActiveNode(conversationId, userNode.id)
+        setMessages((prev) => prev.filter((m) => m.id !== placeholderId))
+        return
+      }
+
+      // Save assistant response to database (partial if the user stopped it)
       const assistantNode = await createNode(
         conversationId,
         userNode.id,
         'assistant',
-        finalContent,
-        thinkingContent
+        result.content,
+        thinkingContent,
+        result.generation,
+        signal.aborted
       )
 
       // Update active node
@@ -180,7 +354,13 @@ export default function ChatScreen() {
       setMessages((prev) =>
         prev.map((m) =>
           m.id === placeholderId
-            ? { ...m, id: assistantNode.id, isStreaming: false }
+            ? {
+                ...m,
+                id: assistantNode.id,
+                isStreaming: false,
+                generation: assistantNode.generation,
+                truncated: assistantNode.truncated,
+              }
             : m
         )
       )
@@ -188,20 +368,24 @@ export default function ChatScreen() {
       console.error('Chat error:', error)
       // Remove streaming placeholder on error
       setMessages((prev) => prev.filter((m) => m.id !== placeholderId))
-      // Show error in a simple way
-      const errorNode = await createNode(
-        conversationId,
-        userNode.id,
-        'assistant',
-        `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
-      )
+      // Keep whatever streamed before the failure, otherwise show the error
+      const errorNode = partialContent
+        ? await createNode(conversationId, userNode.id, 'assistant', partialContent, thinkingContent, null, true)
+        : await createNode(
+            conversationId,
+            userNode.id,
+            'assistant',
+            `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
+          )
+      await updateConversationActiveNode(conversationId, errorNode.id)
       setMessages((prev) => [
         ...prev,
         {
           id: errorNode.id,
           role: 'assistant',
           content: errorNode.content,
-          thinkingContent: '',
+          thinkingContent: errorNode.thinkingContent,
+          truncated: errorNode.truncated,
         },
       ])
     } finally {
@@ -229,13 +413,14 @@ export default function ChatScreen() {
   }
 
   const handleEdit = () => {
-    if (selectedMessage && selectedMessage.role === 'user') {
+    if (selectedMessage) {
       setEditingMessageId(selectedMessage.id)
       setEditContent(selectedMessage.content)
     }
     handleCloseMenu()
   }
 
+  // Fork the edited message into a new sibling so the original subtree stays intact
   const handleSaveEdit = async () => {
     if (!editingMessageId || !conversationId) return
 
@@ -243,20 +428,45 @@ export default function ChatScreen() {
     const editIndex = messages.findIndex((m) => m.id === editingMessageId)
     if (editIndex === -1) return
 
-    // Update the message content
-    await updateNodeContent(editingMessageId, editContent)
+    const role = messages[editIndex].role
+    const parentId = editIndex > 0 ? messages[editIndex - 1].id : null
+    const forkedNode = await createNode(conversationId, parentId, role, editContent)
 
-    // Keep messages up to and including the edited one
-    const keptMessages = messages.slice(0, editIndex + 1).map((m) =>
-      m.id === editingMessageId ? { ...m, content: editContent } : m
-    )
+    // Keep messages above the edited one and continue from the fork
+    const forkedMessage: UiMessage = {
+      id: forkedNode.id,
+      role,
+      content: editContent,
+      thinkingContent: '',
+    }
+    const keptMessages = [...messages.slice(0, editIndex), forkedMessage]
 
     setMessages(keptMessages)
     setEditingMessageId(null)
     setEditContent('')
 
+    // An edited assistant message becomes a prefill for the model to continue
+    if (role === 'assistant') {
+      await continueFromMessage(forkedMessage, keptMessages, continuationMode)
+      return
+    }
+
     // Regenerate response - pass the updated messages to avoid stale state
-    await regenerateFromMessage(keptMessages[keptMessages.length - 1], keptMessages)
+    if (branchCount > 1) {
+      await scatterFromMessage(keptMessages[keptMessages.length - 1], keptMessages, branchCount)
+    } else {
+      await regenerateFromMessage(keptMessages[keptMessages.length - 1], keptMessages)
+    }
+  }
+
+  // Typo fixes: overwrite the node and mark the responses below it as stale
+  const handleSaveEditInPlace = async () => {
+    if (!editingMessageId) return
+
+    await editNodeInPlace(editingMessageId, editContent)
+    setEditingMessageId(null)
+    setEditContent('')
+    await loadConversation()
   }
 
   const handleCancelEdit = () => {
@@ -276,7 +486,131 @@ export default function ChatScreen() {
     const keptMessages = messages.slice(0, assistantIndex)
     setMessages(keptMessages)
 
-    await regenerateFromMessage(userMessage)
+    if (branchCount > 1) {
+      await scatterFromMessage(userMessage, keptMessages, branchCount)
+    } else {
+      await regenerateFromMessage(userMessage, keptMessages)
+    }
+  }
+
+  const handleGenerateBranches = async () => {
+    handleCloseMenu()
+    if (!selectedMessage || selectedMessage.role !== 'user') return
+
+    const userIndex = messages.findIndex((m) => m.id === selectedMessage.id)
+    if (userIndex === -1) return
+
+    const keptMessages = messages.slice(0, userIndex + 1)
+    setMessages(keptMessages)
+
+    await scatterFromMessage(selectedMessage, keptMessages, Math.max(branchCount, 2))
+  }
+
+  // Stream several sibling completions from one user node at once
+  const scatterFromMessage = async (
+    userMessage: UiMessage,
+    currentMessages: UiMessage[],
+    count: number
+  ) => {
+    if (!conversationId) return
+
+    setIsLoading(true)
+    await updateConversationActiveNode(conversationId, userMessage.id)
+
+    const userIndex = currentMessages.findIndex((m) => m.id === userMessage.id)
+    const history = currentMessages.slice(0, userIndex + 1).map((m) => ({
+      role: m.role,
+      content: m.content,
+    }))
+
+    const keys = Array.from({ length: count }, () => crypto.randomUUID())
+    setScatter(
+      keys.map((key) => ({
+        key,
+        nodeId: null,
+        content: '',
+        thinkingContent: '',
+        status: 'streaming',
+      }))
+    )
+
+    const updateBranch = (key: string, patch: Partial<ScatterBranch>) => {
+      setScatter((prev) => prev && prev.map((b) => (b.key === key ? { ...b, ...patch } : b)))
+    }
+
+    abortControllerRef.current = new AbortController()
+    const signal = abortControllerRef.current.signal
+
+    await Promise.all(
+      keys.map(async (key) => {
+        let partialContent = ''
+        let thinkingContent = ''
+        try {
+          const result = await chatStream(
+            conversationId,
+            history,
+            (text) => {
+              partialContent = text
+              updateBranch(key, { content: text })
+            },
+            (thinking) => {
+              thinkingContent = thinking
+              updateBranch(key, { thinkingContent: thinking })
+            },
+            signal
+          )
+
+          if (signal.aborted && !result.content && !thinkingContent) {
+            updateBranch(key, { status: 'error', error: 'Stopped before any text arrived' })
+            return
+          }
+          const assistantNode = await createNode(
+            conversationId,
+            userMessage.id,
+            'assistant',
+            result.content,
+            thinkingContent,
+            result.generation,
+            signal.aborted
+          )
+          updateBranch(key, { nodeId: assistantNode.id, status: 'done' })
+        } catch (error) {
+          console.error('Scatter error:', error)
+          // A failed branch still keeps what it streamed
+          const partialNode = partialContent
+            ? await createNode(
+                conversationId,
+                userMessage.id,
+                'assistant',
+                partialContent,
+                thinkingContent,
+                null,
+                true
+              )
+            : null
+          updateBranch(key, {
+            nodeId: partialNode?.id ?? null,
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+          })
+        }
+      })
+    )
+
+    setIsLoading(false)
+    abortControllerRef.current = null
+  }
+
+  const handleSelectBranch = async (nodeId: string) => {
+    if (!conversationId) return
+    await updateConversationActiveNode(conversationId, nodeId)
+    setScatter(null)
+    await loadConversation()
+  }
+
+  const handleDismissScatter = async () => {
+    setScatter(null)
+    await loadConversation()
   }
 
   const regenerateFromMessage = async (userMessage: UiMessage, messagesOverride?: UiMessage[]) => {
@@ -298,8 +632,13 @@ export default function ChatScreen() {
     }
     setMessages((prev) => [...prev, assistantMessage])
 
+    // Streamed so far, kept if the generation fails part way
+    let partialContent = ''
+    let thinkingContent = ''
+
     try {
       abortControllerRef.current = new AbortController()
+      const signal = abortControllerRef.current.signal
 
       // Build conversation history up to user message
       const userIndex = currentMessages.findIndex((m) => m.id === userMessage.id)
@@ -308,11 +647,11 @@ export default function ChatScreen() {
         content: m.content,
       }))
 
-      let thinkingContent = ''
-
-      const finalContent = await chatStream(
+      const result = await chatStream(
+        conversationId,
         history,
         (text) => {
+          partialContent = text
           setMessages((prev) =>
             prev.map((m) =>
               m.id === placeholderId ? { ...m, content: text } : m
@@ -327,34 +666,196 @@ export default function ChatScreen() {
             )
           )
         },
-        abortControllerRef.current.signal
+        signal
       )
 
+      if (signal.aborted && !result.content && !thinkingContent) {
+        setMessages((prev) => prev.filter((m) => m.id !== placeholderId))
+        return
+      }
+
       // Save assistant response (creates a new branch)
       const assistantNode = await createNode(
         conversationId,
         userMessage.id,
         'assistant',
-        finalContent,
-        thinkingContent
+        result.content,
+        thinkingContent,
+        result.generation,
+        signal.aborted
       )
 
       await updateConversationActiveNode(conversationId, assistantNode.id)
 
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === placeholderId
-            ? { ...m, id: assistantNode.id, isStreaming: false }
-            : m
+      // Reload so the new sibling shows up in the branch switcher
+      await loadConversation()
+    } catch (error) {
+      console.error('Regenerate error:', error)
+      if (partialContent) {
+        const partialNode = await createNode(
+          conversationId,
+          userMessage.id,
+          'assistant',
+          partialContent,
+          thinkingContent,
+          null,
+          true
         )
+        await updateConversationActiveNode(conversationId, partialNode.id)
+        await loadConversation()
+      } else {
+        setMessages((prev) => prev.filter((m) => m.id !== placeholderId))
+      }
+    } finally {
+      setIsLoading(false)
+      abortControllerRef.current = null
+    }
+  }
+
+  // Have the model continue an assistant message from its current text (assistant prefill)
+  const continueFromMessage = async (
+    message: UiMessage,
+    currentMessages: UiMessage[],
+    mode: ContinuationMode
+  ) => {
+    if (!conversationId) return
+
+    const index = currentMessages.findIndex((m) => m.id === message.id)
+    if (index === -1) return
+
+    const keptMessages = currentMessages.slice(0, index + 1)
+    // The model continues from the trimmed text, so append to that
+    const prefix = message.content.trimEnd()
+    const streamingId = mode === 'merge' ? message.id : crypto.randomUUID()
+    // A child is joined to the untrimmed parent, which already ends with the whitespace the model
+    // is likely to start with
+    const childText = (text: string) => (prefix !== message.content ? text.trimStart() : text)
+    const render = (text: string) => (mode === 'merge' ? prefix + text : childText(text))
+
+    setMessages(
+      mode === 'merge'
+        ? keptMessages.map((m) => (m.id === message.id ? { ...m, isStreaming: true } : m))
+        : [
+            ...keptMessages,
+            { id: streamingId, role: 'assistant', content: '', thinkingContent: '', isStreaming: true },
+          ]
+    )
+    setIsLoading(true)
+    setError('')
+
+    const saveContinuation = async (
+      text: string,
+      generation: GenerationMetadata | null,
+      truncated: boolean
+    ) => {
+      if (mode === 'merge') {
+        await saveNodeContinuation(message.id, prefix + text, generation, truncated)
+        await updateConversationActiveNode(conversationId, message.id)
+      } else {
+        const childNode = await createNode(
+          conversationId,
+          message.id,
+          'assistant',
+          childText(text),
+          '',
+          generation,
+          truncated
+        )
+        await updateConversationActiveNode(conversationId, childNode.id)
+      }
+    }
+
+    let continuation = ''
+
+    try {
+      abortControllerRef.current = new AbortController()
+      const signal = abortControllerRef.current.signal
+
+      const history = keptMessages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      }))
+
+      const result = await chatStream(
+        conversationId,
+        history,
+        (text) => {
+          continuation = text
+          setMessages((prev) =>
+            prev.map((m) => (m.id === streamingId ? { ...m, content: render(text) } : m))
+          )
+        },
+        undefined,
+        signal
       )
+
+      // Nothing to keep when stopped before any text arrived
+      if (!signal.aborted || result.content) {
+        await saveContinuation(result.content, result.generation, signal.aborted)
+      }
     } catch (error) {
-      console.error('Regenerate error:', error)
-      setMessages((prev) => prev.filter((m) => m.id !== placeholderId))
+      console.error('Continue error:', error)
+      if (continuation) {
+        await saveContinuation(continuation, null, true)
+      } else {
+        setError(`Could not continue: ${error instanceof Error ? error.message : 'Unknown error occurred'}`)
+      }
     } finally {
       setIsLoading(false)
       abortControllerRef.current = null
+      await loadConversation()
+    }
+  }
+
+  const handleContinueGeneration = async () => {
+    handleCloseMenu()
+    if (!selectedMessage || selectedMessage.role !== 'assistant') return
+
+    // A truncated response always resumes in place
+    await continueFromMessage(
+      selectedMessage,
+      messages,
+      selectedMessage.truncated ? 'merge' : continuationMode
+    )
+  }
+
+  const handleBookmark = () => {
+    if (selectedMessage) {
+      setBookmarkTarget(selectedMessage)
     }
+    handleCloseMenu()
+  }
+
+  const handleSaveBookmark = async (bookmark: Bookmark | null) => {
+    if (bookmarkTarget) {
+      await setNodeBookmark(bookmarkTarget.id, bookmark)
+      setMessages((prev) =>
+        prev.map((m) => (m.id === bookmarkTarget.id ? { ...m, bookmark } : m))
+      )
+    }
+    setBookmarkTarget(null)
+  }
+
+  // Diff the message against its next sibling (the previous one for the last sibling)
+  const handleCompareSibling = () => {
+    handleCloseMenu()
+    const siblings = selectedMessage?.siblingIds
+    if (!selectedMessage || !siblings || siblings.length < 2) return
+    const index = siblings.indexOf(selectedMessage.id)
+    const other = siblings[index + 1] ?? siblings[index - 1]
+    navigate(`/compare/${conversationId}?a=${selectedMessage.id}&b=${other}`)
+  }
+
+  // Prune the message and everything below it; the playhead moves up to its parent
+  const handleDeleteBranch = async () => {
+    handleCloseMenu()
+    if (!selectedMessage) return
+    await softDeleteSubtree(selectedMessage.id)
+    await loadConversation()
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -374,6 +875,20 @@ export default function ChatScreen() {
           <Typography variant="h6" sx={{ flexGrow: 1, ml: 1 }} noWrap>
             {conversation?.title || 'Chat'}
           </Typography>
+          <Button
+            color="inherit"
+            startIcon={<ProfileIcon />}
+            onClick={(e) => setProfileMenuAnchor(e.currentTarget)}
+            sx={{ textTransform: 'none', flexShrink: 0 }}
+          >
+            {profiles.find((p) => p.id === (conversation?.profileId ?? 'default'))?.name ?? 'Default'}
+            {conversation && (conversation.settingsOverrides || conversation.systemPrompt !== null)
+              ? '*'
+              : ''}
+          </Button>
+          <IconButton color="inherit" onClick={() => navigate(`/bookmarks/${conversationId}`)}>
+            <BookmarksIcon />
+          </IconButton>
           <IconButton color="inherit" onClick={() => navigate(`/tree/${conversationId}`)}>
             <TreeIcon />
           </IconButton>
@@ -395,8 +910,10 @@ export default function ChatScreen() {
             key={message.id}
             sx={{
               display: 'flex',
-              justifyContent: message.role === 'user' ? 'flex-end' : 'flex-start',
+              flexDirection: 'column',
+              alignItems: message.role === 'user' ? 'flex-end' : 'flex-start',
             }}
+            onMouseEnter={() => message.siblingIds && setBranchFocusId(message.id)}
           >
             <Paper
               sx={{
@@ -404,6 +921,7 @@ export default function ChatScreen() {
                 maxWidth: '80%',
                 backgroundColor:
                   message.role === 'user' ? 'primary.dark' : 'background.paper',
+                opacity: message.stale ? 0.7 : 1,
                 cursor: 'context-menu',
               }}
               onContextMenu={(e) => handleMessageMenu(e, message)}
@@ -421,9 +939,16 @@ export default function ChatScreen() {
                     autoFocus
                   />
                   <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
-                    <IconButton size="small" onClick={handleSaveEdit} color="primary">
-                      <SendIcon fontSize="small" />
-                    </IconButton>
+                    <Tooltip title="Save as new branch">
+                      <IconButton size="small" onClick={handleSaveEdit} color="primary">
+                        <SendIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Edit in place (marks replies below as stale)">
+                      <IconButton size="small" onClick={handleSaveEditInPlace}>
+                        <SaveIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
                     <IconButton size="small" onClick={handleCancelEdit}>
                       <BackIcon fontSize="small" />
                     </IconButton>
@@ -431,6 +956,25 @@ export default function ChatScreen() {
                 </Box>
               ) : (
                 <>
+                  {message.bookmark && (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 1, color: 'warning.main' }}>
+                      <StarIcon fontSize="small" />
+                      <Typography variant="caption">
+                        {message.bookmark.label}
+                        {message.bookmark.tags.length > 0 &&
+                          ` - ${message.bookmark.tags.map((t) => `#${t}`).join(' ')}`}
+                      </Typography>
+                    </Box>
+                  )}
+                  {message.stale && (
+                    <Typography
+                      variant="caption"
+                      color="warning.main"
+                      sx={{ display: 'block', mb: 1 }}
+                    >
+                      Stale - a message above was edited after this was generated
+                    </Typography>
+                  )}
                   {message.thinkingContent && (
                     <Box
                       sx={{
@@ -450,56 +994,65 @@ export default function ChatScreen() {
                       <Box sx={{ whiteSpace: 'pre-wrap' }}>{message.thinkingContent}</Box>
                     </Box>
                   )}
-                  <Box
-                    sx={{
-                      '& pre': {
-                        overflowX: 'auto',
-                        borderRadius: 1,
-                      },
-                      '& code': {
-                        fontSize: '0.9em',
-                      },
-                      '& p': { m: 0 },
-                      '& p + p': { mt: 1 },
-                    }}
-                  >
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                      components={{
-                        code({ className, children, ...props }) {
-                          const match = /language-(\w+)/.exec(className || '')
-                          const inline = !match
-                          return !inline ? (
-                            <SyntaxHighlighter
-                              style={oneDark}
-                              language={match[1]}
-                              PreTag="div"
-                            >
-                              {String(children).replace(/\n$/, '')}
-                            </SyntaxHighlighter>
-                          ) : (
-                            <code className={className} {...props}>
-                              {children}
-                            </code>
-                          )
-                        },
-                      }}
-                    >
-                      {message.content}
-                    </ReactMarkdown>
-                  </Box>
+                  <MarkdownMessage content={message.content} />
                   {message.isStreaming && (
                     <CircularProgress size={16} sx={{ ml: 1, mt: 1 }} />
                   )}
+                  {message.truncated && !message.isStreaming && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                      Stopped before the end - use Continue generation to resume
+                    </Typography>
+                  )}
                 </>
               )}
             </Paper>
+            {message.siblingIds && message.siblingIds.length > 1 && (
+              <Box
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  color: branchFocusId === message.id ? 'primary.main' : 'text.secondary',
+                }}
+              >
+                <IconButton
+                  size="small"
+                  color="inherit"
+                  disabled={isLoading || message.siblingIds[0] === message.id}
+                  onClick={() => switchSibling(message, -1)}
+                >
+                  <PrevIcon fontSize="small" />
+                </IconButton>
+                <Typography variant="caption">
+                  {message.siblingIds.indexOf(message.id) + 1}/{message.siblingIds.length}
+                </Typography>
+                <IconButton
+                  size="small"
+                  color="inherit"
+                  disabled={isLoading || message.siblingIds[message.siblingIds.length - 1] === message.id}
+                  onClick={() => switchSibling(message, 1)}
+                >
+                  <NextIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            )}
           </Box>
         ))}
+        {scatter && (
+          <ScatterView
+            branches={scatter}
+            onSelect={handleSelectBranch}
+            onDismiss={handleDismissScatter}
+          />
+        )}
         <div ref={messagesEndRef} />
       </Box>
 
       <Box sx={{ p: 2, borderTop: 1, borderColor: 'divider' }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError('')} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
         <Box sx={{ display: 'flex', gap: 1 }}>
           <TextField
             fullWidth
@@ -508,8 +1061,8 @@ export default function ChatScreen() {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
-            disabled={isLoading}
+            placeholder={prefillMode ? "Start the assistant's reply..." : 'Type a message...'}
+            disabled={isLoading || scatter !== null}
             variant="outlined"
             size="small"
             sx={{
@@ -523,13 +1076,46 @@ export default function ChatScreen() {
               },
             }}
           />
-          <IconButton
-            color="primary"
-            onClick={sendMessage}
-            disabled={!input.trim() || isLoading}
-          >
-            {isLoading ? <CircularProgress size={24} /> : <SendIcon />}
-          </IconButton>
+          <Tooltip title="Write the start of the assistant's reply for the model to continue">
+            <span>
+              <IconButton
+                color={prefillMode ? 'secondary' : 'default'}
+                onClick={() => setPrefillMode(!prefillMode)}
+                disabled={isLoading || messages.length === 0}
+              >
+                <PrefillIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <TextField
+            type="number"
+            label="Branches"
+            value={branchCount}
+            onChange={(e) =>
+              setBranchCount(
+                Math.min(MAX_BRANCH_COUNT, Math.max(1, parseInt(e.target.value) || 1))
+              )
+            }
+            disabled={isLoading}
+            variant="outlined"
+            size="small"
+            sx={{ width: 96, flexShrink: 0 }}
+          />
+          {isLoading ? (
+            <Tooltip title="Stop generating">
+              <IconButton color="error" onClick={handleStop}>
+                <StopIcon />
+              </IconButton>
+            </Tooltip>
+          ) : (
+            <IconButton
+              color="primary"
+              onClick={sendMessage}
+              disabled={!input.trim() || scatter !== null}
+            >
+              <SendIcon />
+            </IconButton>
+          )}
         </Box>
       </Box>
 
@@ -537,9 +1123,21 @@ export default function ChatScreen() {
         <MenuItem onClick={handleCopy}>
           <CopyIcon sx={{ mr: 1 }} /> Copy
         </MenuItem>
+        <MenuItem onClick={handleBookmark} disabled={selectedMessage?.isStreaming}>
+          <StarIcon sx={{ mr: 1 }} /> {selectedMessage?.bookmark ? 'Edit bookmark' : 'Bookmark'}
+        </MenuItem>
+        <MenuItem onClick={handleEdit} disabled={isLoading}>
+          <EditIcon sx={{ mr: 1 }} />{' '}
+          {selectedMessage?.role === 'assistant' ? 'Edit & continue' : 'Edit'}
+        </MenuItem>
+        {(selectedMessage?.siblingIds?.length ?? 0) > 1 && (
+          <MenuItem onClick={handleCompareSibling} disabled={selectedMessage?.isStreaming}>
+            <CompareIcon sx={{ mr: 1 }} /> Compare with sibling
+          </MenuItem>
+        )}
         {selectedMessage?.role === 'user' && (
-          <MenuItem onClick={handleEdit}>
-            <EditIcon sx={{ mr: 1 }} /> Edit
+          <MenuItem onClick={handleGenerateBranches} disabled={isLoading}>
+            <ScatterIcon sx={{ mr: 1 }} /> Generate {Math.max(branchCount, 2)} branches
           </MenuItem>
         )}
         {selectedMessage?.role === 'assistant' && (
@@ -550,7 +1148,67 @@ export default function ChatScreen() {
             </MenuItem>
           </>
         )}
+        {selectedMessage?.role === 'assistant' && (
+          <MenuItem onClick={handleContinueGeneration} disabled={isLoading}>
+            <ContinueIcon sx={{ mr: 1 }} /> Continue generation
+          </MenuItem>
+        )}
+        <Divider />
+        <MenuItem onClick={handleDeleteBranch} disabled={isLoading} sx={{ color: 'error.main' }}>
+          <DeleteIcon sx={{ mr: 1 }} /> Delete branch
+        </MenuItem>
+        {selectedMessage?.generation && (
+          <Box sx={{ px: 2, py: 1, maxWidth: 360 }}>
+            <Divider sx={{ mb: 1 }} />
+            <GenerationDetails generation={selectedMessage.generation} />
+          </Box>
+        )}
+      </Menu>
+
+      <Menu
+        anchorEl={profileMenuAnchor}
+        open={Boolean(profileMenuAnchor)}
+        onClose={() => setProfileMenuAnchor(null)}
+      >
+        {profiles.map((p) => (
+          <MenuItem key={p.id} onClick={() => handleSelectProfile(p.id)}>
+            <CheckIcon
+              sx={{
+                mr: 1,
+                visibility: p.id === (conversation?.profileId ?? 'default') ? 'visible' : 'hidden',
+              }}
+            />
+            {p.name}
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setProfileMenuAnchor(null)
+            setSettingsDialogOpen(true)
+          }}
+        >
+          Conversation settings & system prompt...
+        </MenuItem>
       </Menu>
+
+      <BookmarkDialog
+        open={bookmarkTarget !== null}
+        bookmark={bookmarkTarget?.bookmark ?? null}
+        defaultLabel={bookmarkTarget?.content.slice(0, 40) ?? ''}
+        onClose={() => setBookmarkTarget(null)}
+        onSave={handleSaveBookmark}
+      />
+
+      {conversation && (
+        <ConversationSettingsDialog
+          open={settingsDialogOpen}
+          conversation={conversation}
+          profiles={profiles}
+          onClose={() => setSettingsDialogOpen(false)}
+          onSave={handleSaveConversationSettings}
+        />
+      )}
     </Box>
   )
 }
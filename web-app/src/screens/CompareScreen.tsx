@@ -0,0 +1,228 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  Box,
+  AppBar,
+  Toolbar,
+  Typography,
+  IconButton,
+  Paper,
+  Button,
+  Tooltip,
+} from '@mui/material'
+import {
+  ArrowBack as BackIcon,
+  SwapHoriz as SwapIcon,
+  ChevronLeft as PrevIcon,
+  ChevronRight as NextIcon,
+} from '@mui/icons-material'
+import { type Node, buildLinearPath, buildChildrenIndex, getConversationNodes } from '../data/db'
+import { type DiffPart, diffWords, countChangedWords } from '../data/diff'
+
+type Side = 'a' | 'b'
+
+// Two root-to-node paths compared from the point where they diverge
+export default function CompareScreen() {
+  const { conversationId } = useParams<{ conversationId: string }>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const nodeA = searchParams.get('a')
+  const nodeB = searchParams.get('b')
+  const [pathA, setPathA] = useState<Node[]>([])
+  const [pathB, setPathB] = useState<Node[]>([])
+  const [childrenIndex, setChildrenIndex] = useState<Map<string | null, Node[]>>(new Map())
+  const [showShared, setShowShared] = useState(false)
+
+  useEffect(() => {
+    if (!conversationId || !nodeA || !nodeB) return
+    const load = async () => {
+      setPathA(await buildLinearPath(conversationId, nodeA))
+      setPathB(await buildLinearPath(conversationId, nodeB))
+      setChildrenIndex(buildChildrenIndex(await getConversationNodes(conversationId)))
+    }
+    load()
+  }, [conversationId, nodeA, nodeB])
+
+  // Length of the shared prefix; the last shared node is the common ancestor
+  const sharedCount = useMemo(() => {
+    let i = 0
+    while (i < pathA.length && i < pathB.length && pathA[i].id === pathB[i].id) i++
+    return i
+  }, [pathA, pathB])
+
+  const rows = useMemo(() => {
+    const count = Math.max(pathA.length, pathB.length) - sharedCount
+    return Array.from({ length: count }, (_, i) => {
+      const left = pathA[sharedCount + i]
+      const right = pathB[sharedCount + i]
+      return { left, right, parts: left && right ? diffWords(left.content, right.content) : null }
+    })
+  }, [pathA, pathB, sharedCount])
+
+  const totals = useMemo(
+    () =>
+      rows.reduce(
+        (sum, row) => {
+          const counts = row.parts ? countChangedWords(row.parts) : { added: 0, removed: 0 }
+          return { added: sum.added + counts.added, removed: sum.removed + counts.removed }
+        },
+        { added: 0, removed: 0 }
+      ),
+    [rows]
+  )
+
+  const setNodes = (a: string, b: string) => setSearchParams({ a, b }, { replace: true })
+
+  // Step one side through the siblings of its selected node
+  const stepSibling = (side: Side, direction: -1 | 1) => {
+    const path = side === 'a' ? pathA : pathB
+    const node = path[path.length - 1]
+    if (!node) return
+    const siblings = childrenIndex.get(node.parentId) ?? []
+    const next = siblings[siblings.findIndex((s) => s.id === node.id) + direction]
+    if (!next || !nodeA || !nodeB) return
+    if (side === 'a') setNodes(next.id, nodeB)
+    else setNodes(nodeA, next.id)
+  }
+
+  const siblingPosition = (path: Node[]) => {
+    const node = path[path.length - 1]
+    const siblings = node ? (childrenIndex.get(node.parentId) ?? []) : []
+    return { index: siblings.findIndex((s) => s.id === node?.id), count: siblings.length }
+  }
+
+  const renderSideHeader = (side: Side, path: Node[]) => {
+    const { index, count } = siblingPosition(path)
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          {side === 'a' ? 'A' : 'B'} · {path.length} messages
+        </Typography>
+        {count > 1 && (
+          <>
+            <IconButton size="small" disabled={index <= 0} onClick={() => stepSibling(side, -1)}>
+              <PrevIcon fontSize="small" />
+            </IconButton>
+            <Typography variant="caption" color="text.secondary">
+              {index + 1}/{count}
+            </Typography>
+            <IconButton
+              size="small"
+              disabled={index >= count - 1}
+              onClick={() => stepSibling(side, 1)}
+            >
+              <NextIcon fontSize="small" />
+            </IconButton>
+          </>
+        )}
+      </Box>
+    )
+  }
+
+  const renderParts = (parts: DiffPart[], side: Side) =>
+    parts
+      .filter((part) => part.kind === 'same' || part.kind === (side === 'a' ? 'removed' : 'added'))
+      .map((part, i) =>
+        part.kind === 'same' ? (
+          <span key={i}>{part.text}</span>
+        ) : (
+          <Box
+            key={i}
+            component={part.kind === 'added' ? 'ins' : 'del'}
+            sx={{
+              backgroundColor: part.kind === 'added' ? 'success.dark' : 'error.dark',
+              textDecoration: 'none',
+              borderRadius: 0.5,
+            }}
+          >
+            {part.text}
+          </Box>
+        )
+      )
+
+  const renderCell = (node: Node | undefined, parts: DiffPart[] | null, side: Side) => (
+    <Paper
+      variant="outlined"
+      sx={{ flex: 1, minWidth: 0, p: 1.5, opacity: node ? 1 : 0.4, whiteSpace: 'pre-wrap' }}
+    >
+      {node ? (
+        <>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+            {node.role === 'user' ? 'User' : 'Assistant'}
+          </Typography>
+          <Typography variant="body2" component="div">
+            {parts ? renderParts(parts, side) : node.content}
+          </Typography>
+        </>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          (path ends)
+        </Typography>
+      )}
+    </Paper>
+  )
+
+  const shared = pathA.slice(0, sharedCount)
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      <AppBar position="static">
+        <Toolbar>
+          <IconButton edge="start" color="inherit" onClick={() => navigate(-1)}>
+            <BackIcon />
+          </IconButton>
+          <Typography variant="h6" sx={{ flexGrow: 1, ml: 1 }}>
+            Compare
+          </Typography>
+          <Typography variant="body2" sx={{ mr: 1 }}>
+            +{totals.added} / −{totals.removed} words
+          </Typography>
+          <Tooltip title="Swap sides">
+            <IconButton
+              color="inherit"
+              onClick={() => nodeA && nodeB && setNodes(nodeB, nodeA)}
+            >
+              <SwapIcon />
+            </IconButton>
+          </Tooltip>
+        </Toolbar>
+      </AppBar>
+
+      <Box sx={{ flexGrow: 1, overflow: 'auto', p: 2 }}>
+        {shared.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Button size="small" onClick={() => setShowShared(!showShared)}>
+              {showShared ? 'Hide' : 'Show'} {shared.length} shared{' '}
+              {shared.length === 1 ? 'message' : 'messages'}
+            </Button>
+            {(showShared ? shared : shared.slice(-1)).map((node) => (
+              <Paper key={node.id} variant="outlined" sx={{ p: 1.5, mt: 1, whiteSpace: 'pre-wrap' }}>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+                  {node.role === 'user' ? 'User' : 'Assistant'}
+                  {node.id === shared[shared.length - 1].id ? ' · common ancestor' : ''}
+                </Typography>
+                <Typography variant="body2">{node.content}</Typography>
+              </Paper>
+            ))}
+          </Box>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 1 }}>
+          <Box sx={{ flex: 1 }}>{renderSideHeader('a', pathA)}</Box>
+          <Box sx={{ flex: 1 }}>{renderSideHeader('b', pathB)}</Box>
+        </Box>
+
+        {rows.length === 0 ? (
+          <Typography color="text.secondary">Both sides are the same message.</Typography>
+        ) : (
+          rows.map((row, i) => (
+            <Box key={i} sx={{ display: 'flex', gap: 2, mb: 1 }}>
+              {renderCell(row.left, row.parts, 'a')}
+              {renderCell(row.right, row.parts, 'b')}
+            </Box>
+          ))
+        )}
+      </Box>
+    </Box>
+  )
+}
@@ -20,6 +20,7 @@ import {
   TextField,
   Button,
   Divider,
+  Alert,
 } from '@mui/material'
 import {
   Add as AddIcon,
@@ -29,25 +30,34 @@ import {
   FileUpload as ImportIcon,
   FileDownload as ExportIcon,
   Refresh as RefreshIcon,
+  Search as SearchIcon,
+  Bookmarks as BookmarksIcon,
 } from '@mui/icons-material'
 import {
   type Conversation,
+  type ConversationKind,
   getActiveConversations,
   createConversation,
   softDeleteConversation,
   renameConversation,
-  exportConversation,
-  importConversation,
   cleanupOldDeleted,
 } from '../data/db'
+import { IMPORT_FORMAT_NAMES, importFile } from '../data/importFormats'
+import ExportDialog from '../components/ExportDialog'
 
 export default function ConversationListScreen() {
   const navigate = useNavigate()
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null)
+  const [newMenuAnchor, setNewMenuAnchor] = useState<null | HTMLElement>(null)
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null)
   const [renameDialogOpen, setRenameDialogOpen] = useState(false)
   const [newTitle, setNewTitle] = useState('')
+  const [exportConversationId, setExportConversationId] = useState<string | null>(null)
+  const [importResult, setImportResult] = useState<{
+    severity: 'success' | 'warning' | 'error'
+    message: string
+  } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const loadConversations = async () => {
@@ -60,9 +70,14 @@ export default function ConversationListScreen() {
     loadConversations()
   }, [])
 
-  const handleNewConversation = async () => {
-    const conv = await createConversation('New Conversation')
-    navigate(`/chat/${conv.id}`)
+  const openConversation = (conv: Conversation) => {
+    navigate(conv.kind === 'completion' ? `/document/${conv.id}` : `/chat/${conv.id}`)
+  }
+
+  const handleNewConversation = async (kind: ConversationKind) => {
+    setNewMenuAnchor(null)
+    const conv = await createConversation(kind === 'completion' ? 'New Document' : 'New Conversation', kind)
+    openConversation(conv)
   }
 
   const handleOpenMenu = (event: React.MouseEvent<HTMLElement>, conv: Conversation) => {
@@ -106,17 +121,8 @@ export default function ConversationListScreen() {
     handleRenameClose()
   }
 
-  const handleExport = async () => {
-    if (selectedConversation) {
-      const json = await exportConversation(selectedConversation.id)
-      const blob = new Blob([json], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `${selectedConversation.title}.json`
-      a.click()
-      URL.revokeObjectURL(url)
-    }
+  const handleExport = () => {
+    if (selectedConversation) setExportConversationId(selectedConversation.id)
     handleCloseMenu()
   }
 
@@ -127,10 +133,21 @@ export default function ConversationListScreen() {
   const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
-      const text = await file.text()
-      const conv = await importConversation(text)
-      if (conv) {
+      try {
+        const text = await file.text()
+        const { format, conversations: imported, skipped } = await importFile(text)
+        const count = `${imported.length} ${imported.length === 1 ? 'conversation' : 'conversations'}`
+        setImportResult(
+          skipped.length > 0
+            ? {
+                severity: 'warning',
+                message: `Imported ${count} from ${IMPORT_FORMAT_NAMES[format]}; skipped ${skipped.join('; ')}`,
+              }
+            : { severity: 'success', message: `Imported ${count} from ${IMPORT_FORMAT_NAMES[format]}` }
+        )
         await loadConversations()
+      } catch (e) {
+        setImportResult({ severity: 'error', message: e instanceof Error ? e.message : 'Import failed' })
       }
     }
     if (fileInputRef.current) {
@@ -145,6 +162,12 @@ export default function ConversationListScreen() {
           <Typography variant="h6" sx={{ flexGrow: 1 }}>
             Bedrock Loom
           </Typography>
+          <IconButton color="inherit" onClick={() => navigate('/search')}>
+            <SearchIcon />
+          </IconButton>
+          <IconButton color="inherit" onClick={() => navigate('/bookmarks')}>
+            <BookmarksIcon />
+          </IconButton>
           <IconButton color="inherit" onClick={handleImportClick}>
             <ImportIcon />
           </IconButton>
@@ -168,6 +191,12 @@ export default function ConversationListScreen() {
         onChange={handleImportFile}
       />
 
+      {importResult && (
+        <Alert severity={importResult.severity} onClose={() => setImportResult(null)} sx={{ m: 1 }}>
+          {importResult.message}
+        </Alert>
+      )}
+
       <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
         {conversations.length === 0 ? (
           <Box
@@ -193,10 +222,13 @@ export default function ConversationListScreen() {
                   </IconButton>
                 }
               >
-                <ListItemButton onClick={() => navigate(`/chat/${conv.id}`)}>
+                <ListItemButton onClick={() => openConversation(conv)}>
                   <ListItemText
                     primary={conv.title}
-                    secondary={new Date(conv.updatedAt).toLocaleString()}
+                    secondary={
+                      (conv.kind === 'completion' ? 'Text document - ' : '') +
+                      new Date(conv.updatedAt).toLocaleString()
+                    }
                   />
                 </ListItemButton>
               </ListItem>
@@ -208,11 +240,16 @@ export default function ConversationListScreen() {
       <Fab
         color="primary"
         sx={{ position: 'fixed', bottom: 24, right: 24 }}
-        onClick={handleNewConversation}
+        onClick={(e) => setNewMenuAnchor(e.currentTarget)}
       >
         <AddIcon />
       </Fab>
 
+      <Menu anchorEl={newMenuAnchor} open={Boolean(newMenuAnchor)} onClose={() => setNewMenuAnchor(null)}>
+        <MenuItem onClick={() => handleNewConversation('chat')}>Chat</MenuItem>
+        <MenuItem onClick={() => handleNewConversation('completion')}>Text document (base model)</MenuItem>
+      </Menu>
+
       <Menu anchorEl={menuAnchor} open={Boolean(menuAnchor)} onClose={handleCloseMenu}>
         <MenuItem onClick={handleRenameOpen}>Rename</MenuItem>
         <MenuItem onClick={handleExport}>
@@ -244,6 +281,12 @@ export default function ConversationListScreen() {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <ExportDialog
+        open={exportConversationId !== null}
+        conversationId={exportConversationId}
+        onClose={() => setExportConversationId(null)}
+      />
     </Box>
   )
 }
@@ -0,0 +1,711 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import {
+  Box,
+  AppBar,
+  Toolbar,
+  Typography,
+  IconButton,
+  TextField,
+  CircularProgress,
+  Paper,
+  Menu,
+  MenuItem,
+  Divider,
+  Tooltip,
+  Button,
+  Alert,
+} from '@mui/material'
+import {
+  ArrowBack as BackIcon,
+  AccountTree as TreeIcon,
+  ContentCopy as CopyIcon,
+  Edit as EditIcon,
+  Refresh as RegenerateIcon,
+  CallSplit as ScatterIcon,
+  Save as SaveIcon,
+  Send as SendIcon,
+  ChevronLeft as PrevIcon,
+  ChevronRight as NextIcon,
+  Stop as StopIcon,
+  PlayArrow as GenerateIcon,
+  PostAdd as AppendIcon,
+  Tune as ProfileIcon,
+  Check as CheckIcon,
+  Delete as DeleteIcon,
+  Close as CloseIcon,
+} from '@mui/icons-material'
+import {
+  type Conversation,
+  type GenerationMetadata,
+  type Settings,
+  type SettingsOverrides,
+  type ChatRole,
+  db,
+  createNode,
+  buildLinearPath,
+  buildChildrenIndex,
+  getConversationNodes,
+  resolveBranchTip,
+  updateConversationActiveNode,
+  renameConversation,
+  editNodeInPlace,
+  resolveSettings,
+  getProfiles,
+  updateConversationSettings,
+  updateConversationSystemPrompt,
+  softDeleteSubtree,
+  MAX_BRANCH_COUNT,
+} from '../data/db'
+import { completionStream } from '../data/bedrockClient'
+import ConversationSettingsDialog from '../components/ConversationSettingsDialog'
+import GenerationDetails from '../components/GenerationDetails'
+import ScatterView, { type ScatterBranch } from '../components/ScatterView'
+
+interface Segment {
+  id: string
+  // 'user' for text written by hand, 'assistant' for text the model generated
+  role: ChatRole
+  content: string
+  isStreaming?: boolean
+  stale?: boolean
+  // Ids of this node and its siblings, ordered by branchIndex
+  siblingIds?: string[]
+  generation?: GenerationMetadata | null
+  truncated?: boolean
+}
+
+// A completion document: the active path reads as one flowing text that a base model continues
+export default function DocumentScreen() {
+  const { conversationId } = useParams<{ conversationId: string }>()
+  const navigate = useNavigate()
+  const [conversation, setConversation] = useState<Conversation | null>(null)
+  const [segments, setSegments] = useState<Segment[]>([])
+  const [input, setInput] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [editContent, setEditContent] = useState('')
+  const [branchCount, setBranchCount] = useState(1)
+  const [scatter, setScatter] = useState<ScatterBranch[] | null>(null)
+  const [profiles, setProfiles] = useState<Settings[]>([])
+  const [profileMenuAnchor, setProfileMenuAnchor] = useState<null | HTMLElement>(null)
+  const [settingsDialogOpen, setSettingsDialogOpen] = useState(false)
+  const documentEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const selected = segments.find((s) => s.id === selectedId) ?? null
+
+  const loadConversation = useCallback(async () => {
+    if (!conversationId) return
+
+    const conv = await db.conversations.get(conversationId)
+    if (!conv) {
+      navigate('/')
+      return
+    }
+    if (conv.kind !== 'completion') {
+      navigate(`/chat/${conversationId}`, { replace: true })
+      return
+    }
+    setConversation(conv)
+
+    const path = await buildLinearPath(conversationId, conv.activeNodeId)
+    const childrenIndex = buildChildrenIndex(await getConversationNodes(conversationId))
+    setSegments(
+      path.map((node) => ({
+        id: node.id,
+        role: node.role,
+        content: node.content,
+        stale: node.stale,
+        siblingIds: childrenIndex.get(node.parentId)?.map((n) => n.id),
+        generation: node.generation,
+        truncated: node.truncated,
+      }))
+    )
+  }, [conversationId, navigate])
+
+  useEffect(() => {
+    loadConversation()
+  }, [loadConversation])
+
+  const loadSettings = useCallback(async () => {
+    if (!conversationId) return
+    const s = await resolveSettings(conversationId)
+    setBranchCount(s.branchCount)
+    setProfiles(await getProfiles())
+  }, [conversationId])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  useEffect(() => {
+    if (isLoading) {
+      documentEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+    }
+  }, [segments, isLoading])
+
+  const handleSelectProfile = async (profileId: string) => {
+    setProfileMenuAnchor(null)
+    if (!conversationId || !conversation) return
+    await updateConversationSettings(
+      conversationId,
+      profileId === 'default' ? null : profileId,
+      conversation.settingsOverrides
+    )
+    await loadConversation()
+    await loadSettings()
+  }
+
+  const handleSaveConversationSettings = async (
+    profileId: string | null,
+    overrides: SettingsOverrides | null,
+    systemPrompt: string | null
+  ) => {
+    setSettingsDialogOpen(false)
+    if (!conversationId) return
+    await updateConversationSettings(conversationId, profileId, overrides)
+    await updateConversationSystemPrompt(conversationId, systemPrompt)
+    await loadConversation()
+    await loadSettings()
+  }
+
+  // Move to a neighbouring sibling and continue down its most recent path
+  const switchSibling = async (segment: Segment, direction: -1 | 1) => {
+    if (!conversationId || !segment.siblingIds || isLoading) return
+    const target = segment.siblingIds[segment.siblingIds.indexOf(segment.id) + direction]
+    if (!target) return
+
+    const tipId = await resolveBranchTip(target)
+    await updateConversationActiveNode(conversationId, tipId)
+    setSelectedId(target)
+    await loadConversation()
+  }
+
+  // Stream one continuation of the document up to and including the parent segment
+  const streamAfter = async (parent: Segment, current: Segment[]) => {
+    if (!conversationId) return
+
+    const parentIndex = current.findIndex((s) => s.id === parent.id)
+    const prompt = current
+      .slice(0, parentIndex + 1)
+      .map((s) => s.content)
+      .join('')
+
+    const placeholderId = crypto.randomUUID()
+    setSegments([
+      ...current.slice(0, parentIndex + 1),
+      { id: placeholderId, role: 'assistant', content: '', isStreaming: true },
+    ])
+
+    // Streamed so far, kept if the generation fails part way
+    let partialContent = ''
+
+    try {
+      abortControllerRef.current = new AbortController()
+      const signal = abortControllerRef.current.signal
+
+      const result = await completionStream(
+        conversationId,
+        prompt,
+        (text) => {
+          partialContent = text
+          setSegments((prev) => prev.map((s) => (s.id === placeholderId ? { ...s, content: text } : s)))
+        },
+        signal
+      )
+
+      // Stopped before any text arrived: there is no segment to keep
+      if (signal.aborted && !result.content) {
+        await updateConversationActiveNode(conversationId, parent.id)
+        return
+      }
+      const node = await createNode(
+        conversationId,
+        parent.id,
+        'assistant',
+        result.content,
+        '',
+        result.generation,
+        signal.aborted
+      )
+      await updateConversationActiveNode(conversationId, node.id)
+    } catch (e) {
+      console.error('Completion error:', e)
+      if (partialContent) {
+        const node = await createNode(conversationId, parent.id, 'assistant', partialContent, '', null, true)
+        await updateConversationActiveNode(conversationId, node.id)
+      }
+      // Unlike chat, the error is not saved as a node: it would become part of the prompt
+      setError(e instanceof Error ? e.message : 'Unknown error occurred')
+    } finally {
+      abortControllerRef.current = null
+      await loadConversation()
+    }
+  }
+
+  // Stream several sibling continuations of the parent segment at once
+  const scatterAfter = async (parent: Segment, current: Segment[], count: number) => {
+    if (!conversationId) return
+
+    await updateConversationActiveNode(conversationId, parent.id)
+    const parentIndex = current.findIndex((s) => s.id === parent.id)
+    const prompt = current
+      .slice(0, parentIndex + 1)
+      .map((s) => s.content)
+      .join('')
+    setSegments(current.slice(0, parentIndex + 1))
+
+    const keys = Array.from({ length: count }, () => crypto.randomUUID())
+    setScatter(
+      keys.map((key) => ({
+        key,
+        nodeId: null,
+        content: '',
+        thinkingContent: '',
+        status: 'streaming',
+      }))
+    )
+
+    const updateBranch = (key: string, patch: Partial<ScatterBranch>) => {
+      setScatter((prev) => prev && prev.map((b) => (b.key === key ? { ...b, ...patch } : b)))
+    }
+
+    abortControllerRef.current = new AbortController()
+    const signal = abortControllerRef.current.signal
+
+    await Promise.all(
+      keys.map(async (key) => {
+        let partialContent = ''
+        try {
+          const result = await completionStream(
+            conversationId,
+            prompt,
+            (text) => {
+              partialContent = text
+              updateBranch(key, { content: text })
+            },
+            signal
+          )
+          if (signal.aborted && !result.content) {
+            updateBranch(key, { status: 'error', error: 'Stopped before any text arrived' })
+            return
+          }
+          const node = await createNode(
+            conversationId,
+            parent.id,
+            'assistant',
+            result.content,
+            '',
+            result.generation,
+            signal.aborted
+          )
+          updateBranch(key, { nodeId: node.id, status: 'done' })
+        } catch (e) {
+          console.error('Scatter error:', e)
+          // A failed branch still keeps what it streamed
+          const partialNode = partialContent
+            ? await createNode(conversationId, parent.id, 'assistant', partialContent, '', null, true)
+            : null
+          updateBranch(key, {
+            nodeId: partialNode?.id ?? null,
+            status: 'error',
+            error: e instanceof Error ? e.message : 'Unknown error occurred',
+          })
+        }
+      })
+    )
+
+    abortControllerRef.current = null
+  }
+
+  const generateAfter = async (parent: Segment, current: Segment[], count: number) => {
+    setIsLoading(true)
+    setError(null)
+    setSelectedId(null)
+    if (count > 1) {
+      await scatterAfter(parent, current, count)
+    } else {
+      await streamAfter(parent, current)
+    }
+    setIsLoading(false)
+  }
+
+  // Adds the typed text as a written segment at the end of the document
+  const appendInput = async (): Promise<Segment[]> => {
+    if (!conversationId || !input) return segments
+
+    const parentId = segments.length > 0 ? segments[segments.length - 1].id : null
+    const node = await createNode(conversationId, parentId, 'user', input)
+    await updateConversationActiveNode(conversationId, node.id)
+    if (segments.length === 0 && conversation) {
+      const title = input.trim().slice(0, 50) + (input.trim().length > 50 ? '...' : '')
+      await renameConversation(conversationId, title)
+      setConversation({ ...conversation, title })
+    }
+    setInput('')
+
+    const appended = [...segments, { id: node.id, role: node.role, content: node.content }]
+    setSegments(appended)
+    return appended
+  }
+
+  const handleAppend = async () => {
+    if (isLoading) return
+    await appendInput()
+    await loadConversation()
+  }
+
+  const handleGenerate = async () => {
+    if (isLoading || !conversationId) return
+    const current = await appendInput()
+    if (current.length === 0) return
+    await generateAfter(current[current.length - 1], current, branchCount)
+  }
+
+  // A new alternative for the selected segment, continued from the text before it
+  const handleRegenerate = async () => {
+    if (!selected) return
+    const index = segments.findIndex((s) => s.id === selected.id)
+    if (index <= 0) return
+    await generateAfter(segments[index - 1], segments, branchCount)
+  }
+
+  const handleGenerateBranches = async () => {
+    if (!selected) return
+    await generateAfter(selected, segments, Math.max(branchCount, 2))
+  }
+
+  const handleSelectBranch = async (nodeId: string) => {
+    if (!conversationId) return
+    await updateConversationActiveNode(conversationId, nodeId)
+    setScatter(null)
+    await loadConversation()
+  }
+
+  const handleDismissScatter = async () => {
+    setScatter(null)
+    await loadConversation()
+  }
+
+  const handleStartEdit = () => {
+    if (!selected) return
+    setEditContent(selected.content)
+    setEditing(true)
+  }
+
+  // Fork the edited segment into a new sibling so the original subtree stays intact
+  const handleSaveEdit = async () => {
+    if (!conversationId || !selected) return
+    const index = segments.findIndex((s) => s.id === selected.id)
+    const parentId = index > 0 ? segments[index - 1].id : null
+    const node = await createNode(conversationId, parentId, selected.role, editContent)
+    await updateConversationActiveNode(conversationId, node.id)
+    setEditing(false)
+    setSelectedId(node.id)
+    await loadConversation()
+  }
+
+  // Typo fixes: overwrite the segment and mark the text generated after it as stale
+  const handleSaveEditInPlace = async () => {
+    if (!selected) return
+    await editNodeInPlace(selected.id, editContent)
+    setEditing(false)
+    await loadConversation()
+  }
+
+  // Prune the segment and everything after it; the playhead moves up to its parent
+  const handleDelete = async () => {
+    if (!selected) return
+    await softDeleteSubtree(selected.id)
+    setSelectedId(null)
+    await loadConversation()
+  }
+
+  const handleCopyDocument = () => {
+    navigator.clipboard.writeText(segments.map((s) => s.content).join(''))
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      handleGenerate()
+    }
+  }
+
+  const selectedIndex = selected ? segments.findIndex((s) => s.id === selected.id) : -1
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      <AppBar position="static">
+        <Toolbar>
+          <IconButton edge="start" color="inherit" onClick={() => navigate('/')}>
+            <BackIcon />
+          </IconButton>
+          <Typography variant="h6" sx={{ flexGrow: 1, ml: 1 }} noWrap>
+            {conversation?.title || 'Document'}
+          </Typography>
+          <Button
+            color="inherit"
+            startIcon={<ProfileIcon />}
+            onClick={(e) => setProfileMenuAnchor(e.currentTarget)}
+            sx={{ textTransform: 'none', flexShrink: 0 }}
+          >
+            {profiles.find((p) => p.id === (conversation?.profileId ?? 'default'))?.name ?? 'Default'}
+            {conversation?.settingsOverrides ? '*' : ''}
+          </Button>
+          <Tooltip title="Copy document">
+            <IconButton color="inherit" onClick={handleCopyDocument}>
+              <CopyIcon />
+            </IconButton>
+          </Tooltip>
+          <IconButton color="inherit" onClick={() => navigate(`/tree/${conversationId}`)}>
+            <TreeIcon />
+          </IconButton>
+        </Toolbar>
+      </AppBar>
+
+      <Box sx={{ flexGrow: 1, overflow: 'auto', p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Paper sx={{ p: 3 }}>
+          {segments.length === 0 ? (
+            <Typography color="text.secondary">
+              Write the start of a document below; the model continues it as plain text.
+            </Typography>
+          ) : (
+            <Typography
+              component="div"
+              sx={{ whiteSpace: 'pre-wrap', fontFamily: 'Georgia, serif', lineHeight: 1.7 }}
+            >
+              {segments.map((segment) => (
+                <Box
+                  key={segment.id}
+                  component="span"
+                  onClick={() => !isLoading && setSelectedId(segment.id === selectedId ? null : segment.id)}
+                  sx={{
+                    cursor: 'pointer',
+                    borderRadius: 0.5,
+                    // Generated text is tinted so it reads apart from what was written by hand
+                    backgroundColor:
+                      segment.id === selectedId
+                        ? 'action.selected'
+                        : segment.role === 'assistant'
+                          ? 'rgba(144, 202, 249, 0.08)'
+                          : 'transparent',
+                    color: segment.role === 'assistant' ? 'primary.light' : 'text.primary',
+                    opacity: segment.stale ? 0.7 : 1,
+                    textDecoration: segment.truncated ? 'underline dotted' : 'none',
+                    '&:hover': { backgroundColor: 'action.hover' },
+                  }}
+                >
+                  {segment.content}
+                </Box>
+              ))}
+              {segments.some((s) => s.isStreaming) && <CircularProgress size={14} sx={{ ml: 1 }} />}
+            </Typography>
+          )}
+        </Paper>
+        {scatter && (
+          <ScatterView branches={scatter} onSelect={handleSelectBranch} onDismiss={handleDismissScatter} plainText />
+        )}
+        <div ref={documentEndRef} />
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mx: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {selected && !isLoading && (
+        <Paper square sx={{ px: 2, py: 1, borderTop: 1, borderColor: 'divider' }}>
+          {editing ? (
+            <Box>
+              <TextField
+                fullWidth
+                multiline
+                maxRows={8}
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                size="small"
+                autoFocus
+              />
+              <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
+                <Tooltip title="Save as new branch">
+                  <IconButton size="small" onClick={handleSaveEdit} color="primary">
+                    <SendIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Edit in place (marks text after it as stale)">
+                  <IconButton size="small" onClick={handleSaveEditInPlace}>
+                    <SaveIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <IconButton size="small" onClick={() => setEditing(false)}>
+                  <BackIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            </Box>
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="caption" color="text.secondary">
+                {selected.role === 'assistant' ? 'Generated' : 'Written'} segment
+                {selected.stale ? ' (stale - text before it was edited)' : ''}
+                {selected.truncated ? ' (stopped before the end)' : ''}
+              </Typography>
+              {selected.siblingIds && selected.siblingIds.length > 1 && (
+                <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                  <IconButton
+                    size="small"
+                    disabled={selected.siblingIds[0] === selected.id}
+                    onClick={() => switchSibling(selected, -1)}
+                  >
+                    <PrevIcon fontSize="small" />
+                  </IconButton>
+                  <Typography variant="caption">
+                    {selected.siblingIds.indexOf(selected.id) + 1}/{selected.siblingIds.length}
+                  </Typography>
+                  <IconButton
+                    size="small"
+                    disabled={selected.siblingIds[selected.siblingIds.length - 1] === selected.id}
+                    onClick={() => switchSibling(selected, 1)}
+                  >
+                    <NextIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              )}
+              <Box sx={{ flexGrow: 1 }} />
+              <Tooltip title="Generate an alternative to this segment">
+                <span>
+                  <IconButton size="small" onClick={handleRegenerate} disabled={selectedIndex <= 0}>
+                    <RegenerateIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title={`Generate ${Math.max(branchCount, 2)} continuations from here`}>
+                <IconButton size="small" onClick={handleGenerateBranches}>
+                  <ScatterIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Edit">
+                <IconButton size="small" onClick={handleStartEdit}>
+                  <EditIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete branch">
+                <IconButton size="small" onClick={handleDelete} sx={{ color: 'error.main' }}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <IconButton size="small" onClick={() => setSelectedId(null)}>
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          )}
+          {!editing && selected.generation && (
+            <Box sx={{ mt: 1, maxWidth: 360 }}>
+              <GenerationDetails generation={selected.generation} />
+            </Box>
+          )}
+        </Paper>
+      )}
+
+      <Box sx={{ p: 2, borderTop: 1, borderColor: 'divider' }}>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <TextField
+            fullWidth
+            multiline
+            maxRows={6}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Add text to the end of the document (Ctrl+Enter to add and generate)..."
+            disabled={isLoading || scatter !== null}
+            variant="outlined"
+            size="small"
+          />
+          <Tooltip title="Add text without generating">
+            <span>
+              <IconButton onClick={handleAppend} disabled={isLoading || !input || scatter !== null}>
+                <AppendIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <TextField
+            type="number"
+            label="Branches"
+            value={branchCount}
+            onChange={(e) =>
+              setBranchCount(Math.min(MAX_BRANCH_COUNT, Math.max(1, parseInt(e.target.value) || 1)))
+            }
+            disabled={isLoading}
+            variant="outlined"
+            size="small"
+            sx={{ width: 96, flexShrink: 0 }}
+          />
+          {isLoading ? (
+            <Tooltip title="Stop generating">
+              <IconButton color="error" onClick={handleStop}>
+                <StopIcon />
+              </IconButton>
+            </Tooltip>
+          ) : (
+            <Tooltip title="Generate a continuation">
+              <span>
+                <IconButton
+                  color="primary"
+                  onClick={handleGenerate}
+                  disabled={(segments.length === 0 && !input) || scatter !== null}
+                >
+                  <GenerateIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+        </Box>
+      </Box>
+
+      <Menu
+        anchorEl={profileMenuAnchor}
+        open={Boolean(profileMenuAnchor)}
+        onClose={() => setProfileMenuAnchor(null)}
+      >
+        {profiles.map((p) => (
+          <MenuItem key={p.id} onClick={() => handleSelectProfile(p.id)}>
+            <CheckIcon
+              sx={{
+                mr: 1,
+                visibility: p.id === (conversation?.profileId ?? 'default') ? 'visible' : 'hidden',
+              }}
+            />
+            {p.name}
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setProfileMenuAnchor(null)
+            setSettingsDialogOpen(true)
+          }}
+        >
+          Document settings...
+        </MenuItem>
+      </Menu>
+
+      {conversation && (
+        <ConversationSettingsDialog
+          open={settingsDialogOpen}
+          conversation={conversation}
+          profiles={profiles}
+          onClose={() => setSettingsDialogOpen(false)}
+          onSave={handleSaveConversationSettings}
+        />
+      )}
+    </Box>
+  )
+}
@@ -13,6 +13,8 @@ import {
   Menu,
   MenuItem,
   Divider,
+  ListSubheader,
+  Alert,
 } from '@mui/material'
 import {
   ArrowBack as BackIcon,
@@ -22,50 +24,70 @@ import {
 } from '@mui/icons-material'
 import {
   type Conversation,
+  type DeletedSubtree,
   getDeletedConversations,
   restoreConversation,
   permanentlyDeleteConversation,
+  getDeletedSubtrees,
+  restoreSubtree,
+  permanentlyDeleteSubtree,
 } from '../data/db'
 
+type BinItem =
+  | { kind: 'conversation'; conversation: Conversation }
+  | { kind: 'subtree'; subtree: DeletedSubtree }
+
 export default function RecycleBinScreen() {
   const navigate = useNavigate()
   const [conversations, setConversations] = useState<Conversation[]>([])
+  const [subtrees, setSubtrees] = useState<DeletedSubtree[]>([])
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null)
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null)
+  const [selectedItem, setSelectedItem] = useState<BinItem | null>(null)
+  const [error, setError] = useState('')
 
   const loadConversations = async () => {
     const convs = await getDeletedConversations()
     setConversations(convs)
+    setSubtrees(await getDeletedSubtrees())
   }
 
   useEffect(() => {
     loadConversations()
   }, [])
 
-  const handleOpenMenu = (event: React.MouseEvent<HTMLElement>, conv: Conversation) => {
+  const handleOpenMenu = (event: React.MouseEvent<HTMLElement>, item: BinItem) => {
     event.stopPropagation()
-    setSelectedConversation(conv)
+    setSelectedItem(item)
     setMenuAnchor(event.currentTarget)
   }
 
   const handleCloseMenu = () => {
     setMenuAnchor(null)
-    setSelectedConversation(null)
+    setSelectedItem(null)
   }
 
   const handleRestore = async () => {
-    if (selectedConversation) {
-      await restoreConversation(selectedConversation.id)
-      await loadConversations()
+    setError('')
+    try {
+      if (selectedItem?.kind === 'conversation') {
+        await restoreConversation(selectedItem.conversation.id)
+      } else if (selectedItem?.kind === 'subtree') {
+        await restoreSubtree(selectedItem.subtree.root.id)
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not restore')
     }
+    await loadConversations()
     handleCloseMenu()
   }
 
   const handlePermanentDelete = async () => {
-    if (selectedConversation) {
-      await permanentlyDeleteConversation(selectedConversation.id)
-      await loadConversations()
+    if (selectedItem?.kind === 'conversation') {
+      await permanentlyDeleteConversation(selectedItem.conversation.id)
+    } else if (selectedItem?.kind === 'subtree') {
+      await permanentlyDeleteSubtree(selectedItem.subtree.root.id)
     }
+    await loadConversations()
     handleCloseMenu()
   }
 
@@ -89,8 +111,14 @@ export default function RecycleBinScreen() {
         </Toolbar>
       </AppBar>
 
+      {error && (
+        <Alert severity="error" onClose={() => setError('')} sx={{ m: 2, mb: 0 }}>
+          {error}
+        </Alert>
+      )}
+
       <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
-        {conversations.length === 0 ? (
+        {conversations.length === 0 && subtrees.length === 0 ? (
           <Box
             sx={{
               display: 'flex',
@@ -105,15 +133,21 @@ export default function RecycleBinScreen() {
         ) : (
           <>
             <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
-              Deleted conversations are automatically removed after 7 days.
+              Deleted conversations and branches are automatically removed after 7 days.
             </Typography>
             <List>
+              {conversations.length > 0 && subtrees.length > 0 && (
+                <ListSubheader>Conversations</ListSubheader>
+              )}
               {conversations.map((conv) => (
                 <ListItem
                   key={conv.id}
                   disablePadding
                   secondaryAction={
-                    <IconButton edge="end" onClick={(e) => handleOpenMenu(e, conv)}>
+                    <IconButton
+                      edge="end"
+                      onClick={(e) => handleOpenMenu(e, { kind: 'conversation', conversation: conv })}
+                    >
                       <MoreVertIcon />
                     </IconButton>
                   }
@@ -126,6 +160,28 @@ export default function RecycleBinScreen() {
                   </ListItemButton>
                 </ListItem>
               ))}
+              {subtrees.length > 0 && <ListSubheader>Branches</ListSubheader>}
+              {subtrees.map((subtree) => (
+                <ListItem
+                  key={subtree.root.id}
+                  disablePadding
+                  secondaryAction={
+                    <IconButton
+                      edge="end"
+                      onClick={(e) => handleOpenMenu(e, { kind: 'subtree', subtree })}
+                    >
+                      <MoreVertIcon />
+                    </IconButton>
+                  }
+                >
+                  <ListItemButton>
+                    <ListItemText
+                      primary={`${subtree.root.content.slice(0, 80)}${subtree.root.content.length > 80 ? '...' : ''}`}
+                      secondary={`${subtree.conversation?.title ?? 'Unknown conversation'} - ${subtree.nodeCount} ${subtree.nodeCount === 1 ? 'message' : 'messages'} - ${getDaysRemaining(subtree.root.deletedAt)} days remaining`}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
             </List>
           </>
         )}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  Box,
+  AppBar,
+  Toolbar,
+  Typography,
+  IconButton,
+  TextField,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
+} from '@mui/material'
+import { ArrowBack as BackIcon } from '@mui/icons-material'
+import { type SearchHit, searchNodes, updateConversationActiveNode } from '../data/db'
+import { tokenize, buildSnippet } from '../data/search'
+
+export default function SearchScreen() {
+  const navigate = useNavigate()
+  const [query, setQuery] = useState('')
+  const [includeThinking, setIncludeThinking] = useState(false)
+  const [results, setResults] = useState<SearchHit[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    // Debounce so typing doesn't run a query per keystroke
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      const hits = await searchNodes(query, includeThinking)
+      if (!cancelled) {
+        setResults(hits)
+        setIsSearching(false)
+      }
+    }, 200)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, includeThinking])
+
+  const handleOpen = async (hit: SearchHit) => {
+    await updateConversationActiveNode(hit.conversation.id, hit.node.id)
+    navigate(`/chat/${hit.conversation.id}`)
+  }
+
+  const terms = tokenize(query)
+
+  const renderSnippet = (text: string) =>
+    buildSnippet(text, terms).map((part, i) =>
+      part.match ? (
+        <Box
+          key={i}
+          component="mark"
+          sx={{ backgroundColor: 'secondary.dark', color: 'inherit', borderRadius: 0.5 }}
+        >
+          {part.text}
+        </Box>
+      ) : (
+        <span key={i}>{part.text}</span>
+      )
+    )
+
+  // Show the thinking text when the hit only matched there
+  const snippetSource = (hit: SearchHit) => {
+    const contentTokens = new Set(tokenize(hit.node.content))
+    const inContent = terms.every((t, i) =>
+      i === terms.length - 1 ? [...contentTokens].some((c) => c.startsWith(t)) : contentTokens.has(t)
+    )
+    return inContent || !hit.node.thinkingContent ? hit.node.content : hit.node.thinkingContent
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+      <AppBar position="static">
+        <Toolbar>
+          <IconButton edge="start" color="inherit" onClick={() => navigate('/')}>
+            <BackIcon />
+          </IconButton>
+          <Typography variant="h6" sx={{ flexGrow: 1, ml: 1 }}>
+            Search
+          </Typography>
+        </Toolbar>
+      </AppBar>
+
+      <Box sx={{ p: 2, borderBottom: 1, borderColor: 'divider' }}>
+        <TextField
+          fullWidth
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search all conversations..."
+          variant="outlined"
+          size="small"
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={includeThinking}
+              onChange={(e) => setIncludeThinking(e.target.checked)}
+            />
+          }
+          label="Include thinking"
+        />
+      </Box>
+
+      <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
+        {isSearching && results.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : results.length === 0 ? (
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              height: '100%',
+              color: 'text.secondary',
+            }}
+          >
+            <Typography>{terms.length > 0 ? 'No matches' : 'Type to search every branch'}</Typography>
+          </Box>
+        ) : (
+          <List>
+            {results.map((hit) => (
+              <ListItem key={hit.node.id} disablePadding>
+                <ListItemButton onClick={() => handleOpen(hit)}>
+                  <ListItemText
+                    primary={renderSnippet(snippetSource(hit))}
+                    secondary={`${hit.conversation.title} - ${hit.node.role === 'user' ? 'User' : 'Assistant'} - ${new Date(hit.node.createdAt).toLocaleString()}`}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Box>
+  )
+}
@@ -13,38 +13,200 @@ import {
   Button,
   Alert,
   Paper,
+  MenuItem,
 } from '@mui/material'
-import { ArrowBack as BackIcon } from '@mui/icons-material'
-import { getSettings, saveSettings, type Settings, DEFAULT_SETTINGS } from '../data/db'
+import {
+  ArrowBack as BackIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material'
+import {
+  getSettings,
+  getProfiles,
+  saveProfile,
+  createProfile,
+  deleteProfile,
+  type Settings,
+  type ContinuationMode,
+  type ProviderId,
+  type CredentialStorage,
+  DEFAULT_SETTINGS,
+  MAX_BRANCH_COUNT,
+} from '../data/db'
+import { PROVIDERS, getProvider, isBedrockProvider } from '../data/providers'
+import { modelCapabilities } from '../data/modelCatalogue'
+import {
+  credentialStatus,
+  currentCredentials,
+  listCredentialProfiles,
+  parseCredentials,
+  storeCredentials,
+  unlockCredentials,
+} from '../data/credentials'
+import { type ConnectionTestResult, testConnection } from '../data/connectionTest'
+import BackupPanel from '../components/BackupPanel'
+import ModelPicker from '../components/ModelPicker'
 
 export default function SettingsScreen() {
   const navigate = useNavigate()
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
   const [saved, setSaved] = useState(false)
   const [error, setError] = useState('')
+  const [profiles, setProfiles] = useState<Settings[]>([])
+  // Edited apart from the profile, since it may be kept in memory or encrypted instead of saved
+  const [credentialsText, setCredentialsText] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [testing, setTesting] = useState(false)
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null)
+
+  const showProfile = (profile: Settings) => {
+    setSettings(profile)
+    setCredentialsText(currentCredentials(profile))
+    setPassphrase('')
+    setTestResult(null)
+  }
 
   useEffect(() => {
     const load = async () => {
-      const s = await getSettings()
-      setSettings(s)
+      showProfile(await getSettings())
+      setProfiles(await getProfiles())
     }
     load()
   }, [])
 
+  const handleSelectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id)
+    if (profile) {
+      showProfile(profile)
+      setError('')
+    }
+  }
+
+  const handleNewProfile = async () => {
+    const profile = await createProfile(`${settings.name} copy`, settings)
+    setProfiles(await getProfiles())
+    setSettings(profile)
+  }
+
+  const handleDeleteProfile = async () => {
+    await deleteProfile(settings.id)
+    setProfiles(await getProfiles())
+    showProfile(await getSettings())
+  }
+
+  const handleUnlock = async () => {
+    setError('')
+    try {
+      await unlockCredentials(settings, passphrase)
+      setCredentialsText(currentCredentials(settings))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not unlock the credentials')
+    }
+  }
+
+  // Model IDs differ between providers, so switching starts from the new provider's default
+  const handleProviderChange = (provider: ProviderId) => {
+    if (provider === settings.provider) return
+    // An AWS INI and an API key aren't interchangeable, so the saved secret goes too
+    const sameSecret = isBedrockProvider(provider) === isBedrockProvider(settings.provider)
+    setSettings({
+      ...settings,
+      provider,
+      modelId: getProvider(provider).defaultModelId,
+      ...(!sameSecret && { encryptedCredentials: null }),
+    })
+    if (!sameSecret) setCredentialsText('')
+  }
+
+  // Keep the inference settings within what the newly chosen model accepts; not applied while
+  // typing, where a partial ID can match a smaller model on the way
+  const handleModelSelect = (modelId: string) => {
+    const caps = modelCapabilities(modelId)
+    setSettings({
+      ...settings,
+      modelId,
+      ...(caps && {
+        maxTokens: Math.min(settings.maxTokens, caps.maxOutputTokens),
+        temperature: Math.min(settings.temperature, caps.maxTemperature),
+        extendedThinkingEnabled: settings.extendedThinkingEnabled && caps.reasoning,
+      }),
+    })
+  }
+
+  const bedrock = isBedrockProvider(settings.provider)
+  const provider = getProvider(settings.provider)
+  const capabilities = modelCapabilities(settings.modelId)
+  const canThink = provider.supportsThinking && (capabilities?.reasoning ?? true)
+  const temperatureLocked = settings.extendedThinkingEnabled && !capabilities?.temperatureWithThinking
+
+  const iniProfiles = listCredentialProfiles(credentialsText)
+  const parsedCredentials = parseCredentials(credentialsText, settings.credentialProfile)
+  const locked = settings.credentialStorage === 'encrypted' && !!settings.encryptedCredentials && !credentialsText
+  // Saved encrypted credentials stay as they are unless new text was entered
+  const keepEncrypted =
+    settings.credentialStorage === 'encrypted' &&
+    !!settings.encryptedCredentials &&
+    (!credentialsText.trim() || credentialsText === currentCredentials(settings))
+
+  // Credentials typed here are used as they are, before they are saved or encrypted
+  const draft: Settings = credentialsText
+    ? {
+        ...settings,
+        credentialStorage: 'plaintext',
+        ...(bedrock ? { credentials: credentialsText } : { apiKey: credentialsText }),
+      }
+    : settings
+
+  const handleTestConnection = async () => {
+    setTesting(true)
+    setTestResult(null)
+    setTestResult(await testConnection(draft))
+    setTesting(false)
+  }
+
   const handleSave = async () => {
     setError('')
     setSaved(false)
 
-    // Validate credentials format
+    // Validate credentials format; memory-only profiles may leave them to be asked for later
+    if (bedrock && !keepEncrypted) {
+      if (!credentialsText.trim()) {
+        if (settings.credentialStorage !== 'memory') {
+          setError('AWS credentials are required.')
+          return
+        }
+      } else if (!parsedCredentials) {
+        setError(
+          settings.credentialProfile
+            ? `No [${settings.credentialProfile}] section with aws_access_key_id and aws_secret_access_key.`
+            : 'Invalid credentials format. Please use INI format with aws_access_key_id and aws_secret_access_key.'
+        )
+        return
+      }
+    }
+
     if (
-      !settings.credentials.includes('aws_access_key_id') ||
-      !settings.credentials.includes('aws_secret_access_key')
+      settings.provider === 'anthropic' &&
+      !keepEncrypted &&
+      !credentialsText.trim() &&
+      settings.credentialStorage !== 'memory'
     ) {
-      setError('Invalid credentials format. Please use INI format with aws_access_key_id and aws_secret_access_key.')
+      setError('An API key is required for the Anthropic API.')
+      return
+    }
+
+    const encryptingNew = settings.credentialStorage === 'encrypted' && !keepEncrypted && credentialsText.trim()
+    if (encryptingNew && !passphrase) {
+      setError(`Enter a passphrase to encrypt the ${bedrock ? 'credentials' : 'API key'} with.`)
+      return
+    }
+
+    if (!settings.name.trim()) {
+      setError('Profile name is required.')
       return
     }
 
-    if (!settings.region.trim()) {
+    if (bedrock && !settings.region.trim()) {
       setError('Region is required.')
       return
     }
@@ -59,11 +221,108 @@ export default function SettingsScreen() {
       return
     }
 
-    await saveSettings(settings)
+    if (capabilities && settings.maxTokens > capabilities.maxOutputTokens) {
+      setError(`This model returns at most ${capabilities.maxOutputTokens} tokens; lower Max Tokens.`)
+      return
+    }
+
+    if (settings.extendedThinkingEnabled && settings.thinkingBudget >= settings.maxTokens) {
+      setError('Thinking budget must be lower than Max Tokens, which includes the thinking.')
+      return
+    }
+
+    if (settings.branchCount < 1 || settings.branchCount > MAX_BRANCH_COUNT) {
+      setError(`Branch count must be between 1 and ${MAX_BRANCH_COUNT}.`)
+      return
+    }
+
+    const profile: Settings = {
+      ...settings,
+      // A typed-in ID never went through handleModelSelect
+      temperature: Math.min(settings.temperature, capabilities?.maxTemperature ?? settings.temperature),
+      credentials: settings.credentialStorage === 'plaintext' && bedrock ? credentialsText : '',
+      apiKey: settings.credentialStorage === 'plaintext' && !bedrock ? credentialsText : '',
+      encryptedCredentials: settings.credentialStorage === 'encrypted' ? settings.encryptedCredentials : null,
+    }
+    await saveProfile(profile)
+    try {
+      setSettings(
+        !keepEncrypted && credentialsText.trim()
+          ? await storeCredentials(profile, credentialsText, passphrase)
+          : profile
+      )
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the credentials')
+      return
+    }
+    setPassphrase('')
+    setProfiles(await getProfiles())
     setSaved(true)
     setTimeout(() => setSaved(false), 3000)
   }
 
+  const secretName = bedrock ? 'credentials' : 'API key'
+
+  // Shared by the AWS credentials and the API key, which the same storage choice covers
+  const storageSelect = (
+    <TextField
+      select
+      fullWidth
+      label={bedrock ? 'Keep Credentials' : 'Keep API Key'}
+      value={settings.credentialStorage}
+      onChange={(e) =>
+        setSettings({ ...settings, credentialStorage: e.target.value as CredentialStorage })
+      }
+      variant="outlined"
+      sx={{ mb: 2 }}
+      helperText={
+        settings.credentialStorage === 'plaintext'
+          ? 'Stored unencrypted in this browser'
+          : settings.credentialStorage === 'memory'
+            ? 'Never stored; asked for again after the tab is closed'
+            : 'Stored encrypted; the passphrase is asked for once per tab'
+      }
+    >
+      <MenuItem value="plaintext">Saved in this browser</MenuItem>
+      <MenuItem value="memory">In memory only</MenuItem>
+      <MenuItem value="encrypted">Encrypted with a passphrase</MenuItem>
+    </TextField>
+  )
+
+  const unlockRow = (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+      <TextField
+        fullWidth
+        type="password"
+        label="Passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        variant="outlined"
+        helperText={`Unlock to view or change the saved ${secretName}`}
+      />
+      <Button variant="outlined" onClick={handleUnlock} sx={{ mt: 1 }}>
+        Unlock
+      </Button>
+    </Box>
+  )
+
+  const passphraseField = settings.credentialStorage === 'encrypted' && (
+    <TextField
+      fullWidth
+      type="password"
+      label="Passphrase"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      variant="outlined"
+      sx={{ mt: 2 }}
+      helperText={
+        keepEncrypted
+          ? `Only needed when the ${secretName} changes`
+          : `The ${secretName} is encrypted with this passphrase when saved`
+      }
+    />
+  )
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
       <AppBar position="static">
@@ -80,44 +339,224 @@ export default function SettingsScreen() {
       <Box sx={{ flexGrow: 1, overflow: 'auto', p: 2 }}>
         <Paper sx={{ p: 2, mb: 2 }}>
           <Typography variant="h6" gutterBottom>
-            AWS Credentials
+            Profile
           </Typography>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <TextField
+              select
+              fullWidth
+              label="Editing Profile"
+              value={settings.id}
+              onChange={(e) => handleSelectProfile(e.target.value)}
+              variant="outlined"
+            >
+              {profiles.map((p) => (
+                <MenuItem key={p.id} value={p.id}>
+                  {p.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <IconButton onClick={handleNewProfile} title="New profile from this one">
+              <AddIcon />
+            </IconButton>
+            <IconButton
+              onClick={handleDeleteProfile}
+              disabled={settings.id === 'default'}
+              title="Delete profile"
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Box>
           <TextField
             fullWidth
-            multiline
-            rows={6}
-            value={settings.credentials}
-            onChange={(e) => setSettings({ ...settings, credentials: e.target.value })}
-            placeholder={`[default]
-aws_access_key_id=YOUR_ACCESS_KEY
-aws_secret_access_key=YOUR_SECRET_KEY
-aws_session_token=OPTIONAL_SESSION_TOKEN`}
+            label="Profile Name"
+            value={settings.name}
+            onChange={(e) => setSettings({ ...settings, name: e.target.value })}
             variant="outlined"
-            sx={{ fontFamily: 'monospace' }}
+            helperText="The default profile is used by conversations without their own profile"
           />
         </Paper>
 
         <Paper sx={{ p: 2, mb: 2 }}>
           <Typography variant="h6" gutterBottom>
-            AWS Configuration
+            Provider
           </Typography>
           <TextField
+            select
             fullWidth
-            label="Region"
-            value={settings.region}
-            onChange={(e) => setSettings({ ...settings, region: e.target.value })}
+            label="API"
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
             variant="outlined"
-            sx={{ mb: 2 }}
-            helperText="e.g., us-east-1, eu-west-1"
-          />
-          <TextField
-            fullWidth
-            label="Model ID"
+            helperText="Nodes remember which provider generated them, so one tree can mix several"
+          >
+            {Object.values(PROVIDERS).map((p) => (
+              <MenuItem key={p.id} value={p.id}>
+                {p.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Paper>
+
+        {bedrock ? (
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              AWS Credentials
+            </Typography>
+            {storageSelect}
+            {locked ? (
+              unlockRow
+            ) : (
+              <>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={6}
+                  value={credentialsText}
+                  onChange={(e) => setCredentialsText(e.target.value)}
+                  placeholder={`[default]
+aws_access_key_id=YOUR_ACCESS_KEY
+aws_secret_access_key=YOUR_SECRET_KEY
+aws_session_token=OPTIONAL_SESSION_TOKEN`}
+                  variant="outlined"
+                  sx={{ fontFamily: 'monospace' }}
+                />
+                {passphraseField}
+              </>
+            )}
+            {iniProfiles.length > 1 && (
+              <TextField
+                select
+                fullWidth
+                label="INI Profile"
+                value={settings.credentialProfile}
+                onChange={(e) => setSettings({ ...settings, credentialProfile: e.target.value })}
+                variant="outlined"
+                sx={{ mt: 2 }}
+              >
+                <MenuItem value="">
+                  {iniProfiles.includes('default') ? 'default' : 'Choose a profile'}
+                </MenuItem>
+                {iniProfiles
+                  .filter((name) => name !== 'default')
+                  .map((name) => (
+                    <MenuItem key={name} value={name}>
+                      {name}
+                    </MenuItem>
+                  ))}
+              </TextField>
+            )}
+            {parsedCredentials?.expiresAt !== undefined &&
+              (parsedCredentials.expiresAt <= Date.now() ? (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  This session token expired {new Date(parsedCredentials.expiresAt).toLocaleString()}. Paste
+                  fresh credentials.
+                </Alert>
+              ) : (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                  Session token expires {new Date(parsedCredentials.expiresAt).toLocaleString()}
+                </Typography>
+              ))}
+            {credentialStatus(settings) === 'expired' && parsedCredentials?.expiresAt === undefined && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                AWS rejected this session token as expired. Paste fresh credentials.
+              </Alert>
+            )}
+          </Paper>
+        ) : (
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Endpoint
+            </Typography>
+            <TextField
+              fullWidth
+              label="Base URL"
+              value={settings.baseUrl}
+              onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+              placeholder={provider.defaultBaseUrl}
+              variant="outlined"
+              sx={{ mb: 2 }}
+              helperText={
+                settings.provider === 'openai-compatible'
+                  ? 'e.g., http://localhost:8080/v1 for llama.cpp, http://localhost:11434/v1 for Ollama'
+                  : `Leave empty for ${provider.defaultBaseUrl}`
+              }
+            />
+            {storageSelect}
+            {locked ? (
+              unlockRow
+            ) : (
+              <>
+                <TextField
+                  fullWidth
+                  type="password"
+                  label="API Key"
+                  value={credentialsText}
+                  onChange={(e) => setCredentialsText(e.target.value)}
+                  variant="outlined"
+                  helperText={
+                    settings.provider === 'openai-compatible' ? 'Optional for local servers' : undefined
+                  }
+                />
+                {passphraseField}
+              </>
+            )}
+          </Paper>
+        )}
+
+        <Paper sx={{ p: 2, mb: 2 }}>
+          <Typography variant="h6" gutterBottom>
+            {bedrock ? 'AWS Configuration' : 'Model'}
+          </Typography>
+          {bedrock && (
+            <TextField
+              fullWidth
+              label="Region"
+              value={settings.region}
+              onChange={(e) => setSettings({ ...settings, region: e.target.value })}
+              variant="outlined"
+              sx={{ mb: 2 }}
+              helperText="e.g., us-east-1, eu-west-1"
+            />
+          )}
+          <ModelPicker
             value={settings.modelId}
-            onChange={(e) => setSettings({ ...settings, modelId: e.target.value })}
-            variant="outlined"
-            helperText="e.g., us.anthropic.claude-sonnet-4-20250514-v1:0"
+            onChange={(modelId) => setSettings({ ...settings, modelId })}
+            onSelect={handleModelSelect}
+            provider={settings.provider}
+            settings={draft}
           />
+          {bedrock && (
+            <Box sx={{ mt: 2 }}>
+              <Button variant="outlined" onClick={handleTestConnection} disabled={testing || locked}>
+                {testing ? 'Testing...' : 'Test Connection'}
+              </Button>
+              {locked && (
+                <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                  Unlock the credentials to test them
+                </Typography>
+              )}
+              {testResult && (
+                <Alert
+                  severity={
+                    !testResult.problem ? 'success' : testResult.problem === 'throttled' ? 'warning' : 'error'
+                  }
+                  sx={{ mt: 2 }}
+                >
+                  <strong>{testResult.title}</strong> ({testResult.latencyMs} ms): {testResult.explanation}
+                  {testResult.detail && (
+                    <Typography
+                      variant="caption"
+                      component="div"
+                      sx={{ mt: 0.5, fontFamily: 'monospace', wordBreak: 'break-word' }}
+                    >
+                      {testResult.detail}
+                    </Typography>
+                  )}
+                </Alert>
+              )}
+            </Box>
+          )}
         </Paper>
 
         <Paper sx={{ p: 2, mb: 2 }}>
@@ -132,13 +571,13 @@ aws_session_token=OPTIONAL_SESSION_TOKEN`}
             value={settings.temperature}
             onChange={(_, value) => setSettings({ ...settings, temperature: value as number })}
             min={0}
-            max={1}
+            max={capabilities?.maxTemperature ?? 1}
             step={0.01}
             valueLabelDisplay="auto"
             sx={{ mb: 3 }}
-            disabled={settings.extendedThinkingEnabled}
+            disabled={temperatureLocked}
           />
-          {settings.extendedThinkingEnabled && (
+          {temperatureLocked && (
             <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
               Temperature is fixed at 1.0 when extended thinking is enabled.
             </Typography>
@@ -152,9 +591,41 @@ aws_session_token=OPTIONAL_SESSION_TOKEN`}
             onChange={(e) => setSettings({ ...settings, maxTokens: parseInt(e.target.value) || 256 })}
             variant="outlined"
             sx={{ mb: 2 }}
-            helperText="Maximum number of tokens in the response"
+            slotProps={{ htmlInput: { min: 1, max: capabilities?.maxOutputTokens } }}
+            helperText={
+              capabilities
+                ? `Maximum number of tokens in the response (up to ${capabilities.maxOutputTokens} for this model)`
+                : 'Maximum number of tokens in the response'
+            }
+          />
+
+          <TextField
+            fullWidth
+            type="number"
+            label="Branches per Generation"
+            value={settings.branchCount}
+            onChange={(e) => setSettings({ ...settings, branchCount: parseInt(e.target.value) || 1 })}
+            variant="outlined"
+            sx={{ mb: 2 }}
+            helperText={`Sibling responses generated in parallel for each message (1-${MAX_BRANCH_COUNT})`}
           />
 
+          <TextField
+            fullWidth
+            select
+            label="Continuation Mode"
+            value={settings.continuationMode}
+            onChange={(e) =>
+              setSettings({ ...settings, continuationMode: e.target.value as ContinuationMode })
+            }
+            variant="outlined"
+            sx={{ mb: 2 }}
+            helperText="Where text is saved when the model continues an assistant message you wrote or edited"
+          >
+            <MenuItem value="merge">Append to the same message</MenuItem>
+            <MenuItem value="child">Save as a new child node</MenuItem>
+          </TextField>
+
           <TextField
             fullWidth
             multiline
@@ -175,6 +646,7 @@ aws_session_token=OPTIONAL_SESSION_TOKEN`}
             control={
               <Switch
                 checked={settings.extendedThinkingEnabled}
+                disabled={!canThink && !settings.extendedThinkingEnabled}
                 onChange={(e) =>
                   setSettings({ ...settings, extendedThinkingEnabled: e.target.checked })
                 }
@@ -183,7 +655,11 @@ aws_session_token=OPTIONAL_SESSION_TOKEN`}
             label="Enable Extended Thinking"
           />
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            When enabled, Claude will show its reasoning process before responding.
+            {!provider.supportsThinking
+              ? `${provider.name} can't be asked to think; reasoning models still show their thinking.`
+              : canThink
+                ? 'When enabled, Claude will show its reasoning process before responding.'
+                : "This model doesn't support extended thinking."}
           </Typography>
 
           {settings.extendedThinkingEnabled && (
@@ -193,10 +669,11 @@ aws_session_token=OPTIONAL_SESSION_TOKEN`}
               label="Thinking Budget (tokens)"
               value={settings.thinkingBudget}
               onChange={(e) =>
-                setSettings({ ...settings, thinkingBudget: parseInt(e.target.value) || 4096 })
+                setSettings({ ...settings, thinkingBudget: parseInt(e.target.value) || 2048 })
               }
               variant="outlined"
-              helperText="Maximum tokens for thinking process"
+              slotProps={{ htmlInput: { min: 1024, max: settings.maxTokens - 1 } }}
+              helperText="Maximum tokens for thinking process; must be lower than Max Tokens"
             />
           )}
         </Paper>
@@ -216,6 +693,13 @@ aws_session_token=OPTIONAL_SESSION_TOKEN`}
         <Button variant="contained" fullWidth size="large" onClick={handleSave}>
           Save Settings
         </Button>
+
+        <BackupPanel
+          onRestored={async () => {
+            showProfile(await getSettings())
+            setProfiles(await getProfiles())
+          }}
+        />
       </Box>
     </Box>
   )
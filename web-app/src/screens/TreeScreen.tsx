@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import {
   Box,
@@ -8,38 +8,268 @@ import {
   IconButton,
   Button,
   Paper,
+  Alert,
+  Menu,
+  MenuItem,
+  ListSubheader,
 } from '@mui/material'
-import { ArrowBack as BackIcon } from '@mui/icons-material'
+import {
+  ArrowBack as BackIcon,
+  ZoomIn as ZoomInIcon,
+  ZoomOut as ZoomOutIcon,
+  FitScreen as FitScreenIcon,
+  CenterFocusStrong as CenterIcon,
+  Tune as DisplayIcon,
+} from '@mui/icons-material'
 import {
   type Node,
   type Conversation,
+  type Bookmark,
   db,
+  setNodeBookmark,
+  softDeleteSubtree,
+  moveSubtree,
+  copySubtree,
+  splitSubtree,
+  getActiveConversations,
   getConversationNodes,
   updateConversationActiveNode,
+  updateConversationTreeLayout,
+  type TreeLayoutMode,
 } from '../data/db'
+import GenerationDetails from '../components/GenerationDetails'
+import BookmarkDialog from '../components/BookmarkDialog'
+import GraftDialog, { type GraftMode } from '../components/GraftDialog'
+import ExportDialog from '../components/ExportDialog'
+import {
+  type TreeLayout,
+  type LayoutNode,
+  type NodeShape,
+  type NodeSize,
+  NODE_RADIUS,
+  NODE_SIZES,
+  computeTreeLayout,
+  hitTest,
+  treeStructureKey,
+  collectSubtreeIds,
+} from '../data/treeLayout'
 
-interface TreeNode {
-  node: Node
+interface Viewport {
+  // Screen position of the tree origin, and zoom factor
   x: number
   y: number
-  children: TreeNode[]
+  scale: number
+}
+
+const MIN_SCALE = 0.05
+const MAX_SCALE = 3
+const ZOOM_STEP = 1.25
+// Below this zoom the role letters are unreadable, so skip drawing them
+const LABEL_MIN_SCALE = 0.4
+const MINIMAP_WIDTH = 180
+const MINIMAP_HEIGHT = 120
+// Pointer travel before a press turns into a drag
+const DRAG_THRESHOLD = 4
+const DOUBLE_TAP_MS = 300
+
+type ColorMode = 'role' | 'model' | 'tag'
+const MAX_LEGEND_ENTRIES = 8
+const LAYOUT_MODES: { mode: TreeLayoutMode; label: string }[] = [
+  { mode: 'vertical', label: 'Top to bottom' },
+  { mode: 'horizontal', label: 'Left to right' },
+  { mode: 'radial', label: 'Radial' },
+  { mode: 'compact', label: 'Compact (collapse chains)' },
+]
+const HOVER_CARD_WIDTH = 360
+
+// In the left-to-right layout the arrow axes swap so the keys match the picture
+const HORIZONTAL_KEYS: Record<string, string> = {
+  ArrowLeft: 'ArrowUp',
+  ArrowRight: 'ArrowDown',
+  ArrowUp: 'ArrowLeft',
+  ArrowDown: 'ArrowRight',
+}
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+// Maps tree coordinates into the minimap, keeping the aspect ratio and centring the tree
+function minimapTransform(layout: TreeLayout) {
+  const { minX, minY, maxX, maxY } = layout.bounds
+  const scale = Math.min(MINIMAP_WIDTH / (maxX - minX || 1), MINIMAP_HEIGHT / (maxY - minY || 1))
+  return {
+    scale,
+    x: (MINIMAP_WIDTH - (maxX - minX) * scale) / 2 - minX * scale,
+    y: (MINIMAP_HEIGHT - (maxY - minY) * scale) / 2 - minY * scale,
+  }
+}
+
+// Card previews are wrapped once per text and reused across frames
+const previewCache = new Map<string, { content: string; lines: string[] }>()
+
+function previewLines(ctx: CanvasRenderingContext2D, node: Node, maxWidth: number): string[] {
+  const cached = previewCache.get(node.id)
+  if (cached && cached.content === node.content) return cached.lines
+  const lines = wrapText(ctx, node.content.trim() || '(empty)', maxWidth, 2)
+  previewCache.set(node.id, { content: node.content, lines })
+  return lines
+}
+
+// Greedy word wrap that ellipsizes the last line when the text doesn't fit
+function wrapText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+  maxLines: number
+): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line)
+      line = word
+      if (lines.length === maxLines) break
+    } else {
+      line = candidate
+    }
+  }
+  const cut = lines.length === maxLines
+  if (!cut) lines.push(line)
+
+  return lines.map((l, i) => {
+    if (!(cut && i === lines.length - 1) && ctx.measureText(l).width <= maxWidth) return l
+    let shortened = l
+    while (shortened && ctx.measureText(`${shortened}…`).width > maxWidth) {
+      shortened = shortened.slice(0, -1)
+    }
+    return `${shortened}…`
+  })
+}
+
+function cardHeading(node: Node): string {
+  const role = node.role === 'user' ? 'User' : 'Assistant'
+  return node.generation ? `${role} · ${shortModelName(node.generation.modelId)}` : role
+}
+
+// "us.anthropic.claude-3-5-sonnet-20241022-v2:0" -> "claude-3-5-sonnet"
+function shortModelName(modelId: string): string {
+  const name = modelId.split('.').pop() ?? modelId
+  return name.replace(/-\d{8}.*$/, '').replace(/:\d+$/, '')
+}
+
+// Adds the outline of a node, grown by `padding`, as the current path
+function traceNodeShape(
+  ctx: CanvasRenderingContext2D,
+  layoutNode: LayoutNode,
+  size: NodeSize,
+  padding: number
+) {
+  ctx.beginPath()
+  if (size.shape === 'circle') {
+    ctx.arc(layoutNode.x, layoutNode.y, size.width / 2 + padding, 0, Math.PI * 2)
+  } else {
+    ctx.roundRect(
+      layoutNode.x - size.width / 2 - padding,
+      layoutNode.y - size.height / 2 - padding,
+      size.width + padding * 2,
+      size.height + padding * 2,
+      8 + padding
+    )
+  }
+}
+
+// A collapsed chain: a dashed outline with the number of messages it hides
+function drawSegment(
+  ctx: CanvasRenderingContext2D,
+  segment: LayoutNode,
+  size: NodeSize,
+  highlighted: boolean,
+  showLabel: boolean
+) {
+  traceNodeShape(ctx, segment, size, 0)
+  ctx.fillStyle = '#2C2C2C'
+  ctx.fill()
+  ctx.strokeStyle = highlighted ? '#03DAC6' : '#888'
+  ctx.lineWidth = 2
+  ctx.setLineDash([4, 3])
+  ctx.stroke()
+  ctx.setLineDash([])
+  if (!showLabel) return
+
+  const count = segment.hidden!.length
+  ctx.fillStyle = '#fff'
+  ctx.font = '12px Roboto, sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(size.shape === 'card' ? `⋯ ${count} messages` : `⋯${count}`, segment.x, segment.y)
+}
+
+const ROLE_COLORS: Record<Node['role'], string> = { user: '#6200EE', assistant: '#3700B3' }
+const UNCOLORED = '#424242'
+
+// What a node's colour is keyed on, or null when it has nothing to colour by
+function colorKey(node: Node, mode: ColorMode): string | null {
+  if (mode === 'model') return node.generation ? shortModelName(node.generation.modelId) : null
+  if (mode === 'tag') return node.bookmark?.tags[0] ?? null
+  return node.role
+}
+
+// Stable hue per model or tag so the same value keeps its colour across sessions
+function keyColor(key: string): string {
+  let hash = 0
+  for (const char of key) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return `hsl(${Math.abs(hash) % 360}, 55%, 38%)`
 }
 
-const NODE_RADIUS = 24
-const LEVEL_HEIGHT = 100
-const NODE_SPACING = 60
+function nodeColor(node: Node, mode: ColorMode): string {
+  if (mode === 'role') return ROLE_COLORS[node.role]
+  const key = colorKey(node, mode)
+  return key ? keyColor(key) : UNCOLORED
+}
 
 export default function TreeScreen() {
   const { conversationId } = useParams<{ conversationId: string }>()
   const navigate = useNavigate()
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const minimapRef = useRef<HTMLCanvasElement>(null)
+  const hoverCardRef = useRef<HTMLDivElement>(null)
   const [conversation, setConversation] = useState<Conversation | null>(null)
-  const [, setNodes] = useState<Node[]>([])
   const [selectedNode, setSelectedNode] = useState<Node | null>(null)
-  const [treeRoot, setTreeRoot] = useState<TreeNode | null>(null)
-  const [offset, setOffset] = useState({ x: 0, y: 0 })
+  const [layout, setLayout] = useState<TreeLayout | null>(null)
+  const structureKeyRef = useRef('')
+  // The viewport lives in a ref so panning and zooming redraw without re-rendering React
+  const viewRef = useRef<Viewport>({ x: 0, y: 0, scale: 1 })
+  const placedForRef = useRef<string | null>(null)
+  const frameRef = useRef<number | null>(null)
+  const minimapCacheRef = useRef<HTMLCanvasElement | null>(null)
   const [dragging, setDragging] = useState(false)
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
+  const panStartRef = useRef({ x: 0, y: 0 })
+  const pressStartRef = useRef({ x: 0, y: 0 })
+  const [bookmarkDialogOpen, setBookmarkDialogOpen] = useState(false)
+  const [graftDialogOpen, setGraftDialogOpen] = useState(false)
+  const [exportDialogOpen, setExportDialogOpen] = useState(false)
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [error, setError] = useState<string | null>(null)
+  // Node being dragged onto a new parent, with the pointer position in tree coordinates
+  const [draggedNode, setDraggedNode] = useState<Node | null>(null)
+  const dragPointRef = useRef<{ x: number; y: number } | null>(null)
+  const [dropTarget, setDropTarget] = useState<Node | null>(null)
+  // Alt held during a drag: copies can go anywhere, even under their own descendants
+  const [dragCopy, setDragCopy] = useState(false)
+  const didDragRef = useRef(false)
+  const [nodeShape, setNodeShape] = useState<NodeShape>('circle')
+  const [colorMode, setColorMode] = useState<ColorMode>('role')
+  const [displayMenuAnchor, setDisplayMenuAnchor] = useState<null | HTMLElement>(null)
+  const [hovered, setHovered] = useState<{ node: Node; x: number; y: number } | null>(null)
+  // Active pointers in canvas coordinates, for telling pans from pinches
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>())
+  const pinchRef = useRef<{ distance: number; x: number; y: number } | null>(null)
+  const lastTapRef = useRef<{ nodeId: string; time: number } | null>(null)
+  const [canvasFocused, setCanvasFocused] = useState(false)
+  // Collapsed chains the user opened in the compact layout, by their first node
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  // First node of a comparison; the next tapped node opens the diff
+  const [compareFrom, setCompareFrom] = useState<Node | null>(null)
 
   const loadData = useCallback(async () => {
     if (!conversationId) return
@@ -52,205 +282,751 @@ export default function TreeScreen() {
     setConversation(conv)
 
     const allNodes = await getConversationNodes(conversationId)
-    setNodes(allNodes)
-
-    // Build tree structure
-    const root = allNodes.find((n) => n.parentId === null)
-    if (root) {
-      const nodeMap = new Map(allNodes.map((n) => [n.id, n]))
-      const buildTree = (node: Node, depth: number, _index: number): TreeNode => {
-        const children = allNodes
-          .filter((n) => n.parentId === node.id)
-          .sort((a, b) => a.branchIndex - b.branchIndex)
-          .map((child, i) => buildTree(child, depth + 1, i))
-
-        return {
-          node,
-          x: 0, // Will be calculated later
-          y: depth * LEVEL_HEIGHT + 50,
-          children,
-        }
-      }
-
-      const tree = buildTree(root, 0, 0)
 
-      // Calculate x positions (simple layout)
-      let xCounter = 0
-      const assignX = (treeNode: TreeNode) => {
-        if (treeNode.children.length === 0) {
-          treeNode.x = xCounter * NODE_SPACING + 50
-          xCounter++
-        } else {
-          for (const child of treeNode.children) {
-            assignX(child)
-          }
-          // Center parent above children
-          const firstChild = treeNode.children[0]
-          const lastChild = treeNode.children[treeNode.children.length - 1]
-          treeNode.x = (firstChild.x + lastChild.x) / 2
-        }
+    // Only lay the tree out again when its shape changed; otherwise refresh node data in place
+    const mode = conv.treeLayoutMode
+    const key = [conversationId, nodeShape, mode, [...expanded].join(), treeStructureKey(allNodes)].join('/')
+    const relayout = key !== structureKeyRef.current
+    structureKeyRef.current = key
+    setLayout((current) => {
+      if (!current || relayout) {
+        return computeTreeLayout(allNodes, NODE_SIZES[nodeShape], { mode, expanded })
       }
-      assignX(tree)
-
-      setTreeRoot(tree)
-
-      // Select active node if exists
-      if (conv.activeNodeId) {
-        const activeNode = nodeMap.get(conv.activeNodeId)
-        if (activeNode) {
-          setSelectedNode(activeNode)
-        }
+      const fresh = new Map(allNodes.map((n) => [n.id, n]))
+      for (const layoutNode of current.nodes) {
+        layoutNode.node = fresh.get(layoutNode.node.id)!
+        layoutNode.hidden = layoutNode.hidden?.map((n) => fresh.get(n.id)!)
       }
+      return { ...current }
+    })
+
+    // Select active node if exists
+    const activeNode = allNodes.find((n) => n.id === conv.activeNodeId)
+    if (activeNode) {
+      setSelectedNode(activeNode)
     }
-  }, [conversationId, navigate])
+  }, [conversationId, navigate, nodeShape, expanded])
 
   useEffect(() => {
     loadData()
   }, [loadData])
 
+  const canvasSize = () => {
+    const canvas = canvasRef.current
+    return { width: canvas?.offsetWidth ?? 0, height: canvas?.offsetHeight ?? 0 }
+  }
+
+  const drawMinimap = useCallback(() => {
+    const minimap = minimapRef.current
+    const ctx = minimap?.getContext('2d')
+    if (!minimap || !ctx || !layout || layout.nodes.length === 0) return
+
+    const dpr = window.devicePixelRatio
+    if (minimap.width !== Math.round(MINIMAP_WIDTH * dpr)) {
+      minimap.width = Math.round(MINIMAP_WIDTH * dpr)
+      minimap.height = Math.round(MINIMAP_HEIGHT * dpr)
+    }
+    const map = minimapTransform(layout)
+
+    // Node dots only change with the layout, so they are drawn once into an offscreen canvas
+    if (!minimapCacheRef.current) {
+      const cache = document.createElement('canvas')
+      cache.width = minimap.width
+      cache.height = minimap.height
+      const cacheCtx = cache.getContext('2d')!
+      cacheCtx.setTransform(dpr, 0, 0, dpr, 0, 0)
+      cacheCtx.fillStyle = 'rgba(18, 18, 18, 0.85)'
+      cacheCtx.fillRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT)
+      cacheCtx.fillStyle = '#888'
+      for (const { x, y } of layout.nodes) {
+        cacheCtx.fillRect(x * map.scale + map.x - 1, y * map.scale + map.y - 1, 2, 2)
+      }
+      minimapCacheRef.current = cache
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, minimap.width, minimap.height)
+    ctx.drawImage(minimapCacheRef.current, 0, 0)
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+
+    const active = conversation?.activeNodeId ? layout.byId.get(conversation.activeNodeId) : null
+    if (active) {
+      ctx.fillStyle = '#03DAC6'
+      ctx.fillRect(active.x * map.scale + map.x - 2, active.y * map.scale + map.y - 2, 4, 4)
+    }
+
+    // Current viewport
+    const view = viewRef.current
+    const { width, height } = canvasSize()
+    ctx.strokeStyle = '#BB86FC'
+    ctx.lineWidth = 1
+    ctx.strokeRect(
+      (-view.x / view.scale) * map.scale + map.x,
+      (-view.y / view.scale) * map.scale + map.y,
+      (width / view.scale) * map.scale,
+      (height / view.scale) * map.scale
+    )
+  }, [layout, conversation])
+
   const draw = useCallback(() => {
     const canvas = canvasRef.current
-    if (!canvas || !treeRoot) return
+    if (!canvas) return
 
     const ctx = canvas.getContext('2d')
     if (!ctx) return
 
-    // Set canvas size
-    canvas.width = canvas.offsetWidth * window.devicePixelRatio
-    canvas.height = canvas.offsetHeight * window.devicePixelRatio
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
+    // Resizing clears the canvas, so only do it when the element size actually changed
+    const dpr = window.devicePixelRatio
+    const { width, height } = canvasSize()
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr)
+      canvas.height = Math.round(height * dpr)
+    }
 
     // Clear
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
     ctx.fillStyle = '#121212'
-    ctx.fillRect(0, 0, canvas.offsetWidth, canvas.offsetHeight)
-
-    // Draw with offset
-    ctx.save()
-    ctx.translate(offset.x, offset.y)
-
-    // Draw connections
-    const drawConnections = (treeNode: TreeNode) => {
-      for (const child of treeNode.children) {
-        ctx.beginPath()
-        ctx.moveTo(treeNode.x, treeNode.y + NODE_RADIUS)
-        ctx.lineTo(child.x, child.y - NODE_RADIUS)
-        ctx.strokeStyle = '#666'
-        ctx.lineWidth = 2
-        ctx.stroke()
-        drawConnections(child)
+    ctx.fillRect(0, 0, width, height)
+    if (!layout) return
+
+    const view = viewRef.current
+    const { size } = layout
+    const halfWidth = size.width / 2
+    const halfHeight = size.height / 2
+    ctx.setTransform(dpr * view.scale, 0, 0, dpr * view.scale, dpr * view.x, dpr * view.y)
+
+    // Visible area in tree coordinates, padded by a node so partly visible ones still draw
+    const visible = {
+      minX: -view.x / view.scale - halfWidth,
+      minY: -view.y / view.scale - halfHeight,
+      maxX: (width - view.x) / view.scale + halfWidth,
+      maxY: (height - view.y) / view.scale + halfHeight,
+    }
+    const isVisible = (n: LayoutNode) =>
+      n.x >= visible.minX && n.x <= visible.maxX && n.y >= visible.minY && n.y <= visible.maxY
+
+    // Root to active node, drawn as a highlighted trail
+    const activePath = new Set<string>()
+    const active = conversation?.activeNodeId ? layout.byId.get(conversation.activeNodeId) : undefined
+    for (let n = active; n; n = n.parent ?? undefined) activePath.add(n.node.id)
+
+    // Draw connections as one path per style, skipping edges whose bounding box is off screen.
+    // Edges run centre to centre; the nodes drawn on top hide the ends.
+    const drawEdges = (onActivePath: boolean) => {
+      ctx.beginPath()
+      for (const parent of layout.nodes) {
+        for (const child of parent.children) {
+          if (activePath.has(child.node.id) !== onActivePath) continue
+          if (
+            Math.max(parent.x, child.x) < visible.minX ||
+            Math.min(parent.x, child.x) > visible.maxX ||
+            Math.max(parent.y, child.y) < visible.minY ||
+            Math.min(parent.y, child.y) > visible.maxY
+          ) {
+            continue
+          }
+          ctx.moveTo(parent.x, parent.y)
+          ctx.lineTo(child.x, child.y)
+        }
       }
+      ctx.strokeStyle = onActivePath ? '#03DAC6' : '#666'
+      ctx.lineWidth = onActivePath ? 4 : 2
+      ctx.stroke()
     }
-    drawConnections(treeRoot)
+    drawEdges(false)
+    drawEdges(true)
 
     // Draw nodes
-    const drawNodes = (treeNode: TreeNode) => {
-      const isSelected = selectedNode?.id === treeNode.node.id
-      const isActive = conversation?.activeNodeId === treeNode.node.id
+    const showLabels = view.scale >= LABEL_MIN_SCALE
+    const selected = selectedNode ? layout.byId.get(selectedNode.id) : undefined
+    for (const treeNode of layout.nodes) {
+      if (!isVisible(treeNode)) continue
+      const isSelected = treeNode === selected
+      const isActive = treeNode === active
 
-      // Node circle
-      ctx.beginPath()
-      ctx.arc(treeNode.x, treeNode.y, NODE_RADIUS, 0, Math.PI * 2)
+      if (treeNode.hidden) {
+        drawSegment(ctx, treeNode, size, isSelected || isActive, showLabels)
+        continue
+      }
 
-      if (isSelected) {
+      traceNodeShape(ctx, treeNode, size, 0)
+      // Circles show selection by fill; cards keep their colour and rely on the border
+      if (size.shape === 'circle' && isSelected) {
         ctx.fillStyle = '#BB86FC'
-      } else if (isActive) {
+      } else if (size.shape === 'circle' && isActive) {
         ctx.fillStyle = '#03DAC6'
-      } else if (treeNode.node.role === 'user') {
-        ctx.fillStyle = '#6200EE'
       } else {
-        ctx.fillStyle = '#3700B3'
+        ctx.fillStyle = nodeColor(treeNode.node, colorMode)
       }
       ctx.fill()
 
       // Border
-      if (isSelected) {
-        ctx.strokeStyle = '#fff'
+      if (isSelected || (isActive && size.shape === 'card')) {
+        ctx.strokeStyle = isSelected ? '#fff' : '#03DAC6'
         ctx.lineWidth = 3
         ctx.stroke()
       }
+      // Keyboard focus ring
+      if (isSelected && canvasFocused) {
+        traceNodeShape(ctx, treeNode, size, 6)
+        ctx.strokeStyle = '#fff'
+        ctx.setLineDash([4, 3])
+        ctx.lineWidth = 2
+        ctx.stroke()
+        ctx.setLineDash([])
+      }
+
+      if (!showLabels) continue
 
       // Label
       ctx.fillStyle = '#fff'
-      ctx.font = '12px Roboto, sans-serif'
-      ctx.textAlign = 'center'
       ctx.textBaseline = 'middle'
-      const label = treeNode.node.role === 'user' ? 'U' : 'A'
-      ctx.fillText(label, treeNode.x, treeNode.y)
+      if (size.shape === 'card') {
+        ctx.textAlign = 'left'
+        ctx.font = '10px Roboto, sans-serif'
+        ctx.globalAlpha = 0.7
+        ctx.fillText(cardHeading(treeNode.node), treeNode.x - halfWidth + 8, treeNode.y - halfHeight + 11)
+        ctx.globalAlpha = 1
+        ctx.font = '12px Roboto, sans-serif'
+        previewLines(ctx, treeNode.node, size.width - 16).forEach((line, i) => {
+          ctx.fillText(line, treeNode.x - halfWidth + 8, treeNode.y - 4 + i * 16)
+        })
+      } else {
+        ctx.textAlign = 'center'
+        ctx.font = '12px Roboto, sans-serif'
+        const label = treeNode.node.role === 'user' ? 'U' : 'A'
+        ctx.fillText(label, treeNode.x, treeNode.y)
+      }
 
-      for (const child of treeNode.children) {
-        drawNodes(child)
+      // Bookmark glyph
+      if (treeNode.node.bookmark) {
+        ctx.fillStyle = '#FFC107'
+        ctx.font = '16px Roboto, sans-serif'
+        ctx.textAlign = 'center'
+        if (size.shape === 'card') {
+          ctx.fillText('★', treeNode.x + halfWidth - 10, treeNode.y - halfHeight + 11)
+        } else {
+          ctx.fillText('★', treeNode.x + NODE_RADIUS * 0.8, treeNode.y - NODE_RADIUS * 0.8)
+        }
       }
     }
-    drawNodes(treeRoot)
 
-    ctx.restore()
-  }, [treeRoot, selectedNode, conversation, offset])
+    // Drag preview: a line from the dragged node to the pointer and a ring on the drop target
+    const dragPoint = dragPointRef.current
+    const source = draggedNode ? layout.byId.get(draggedNode.id) : null
+    if (source && dragPoint) {
+      const invalid = !dragCopy && dropTarget !== null && collectSubtreeIds(source).has(dropTarget.id)
+      ctx.setLineDash([6, 4])
+      ctx.beginPath()
+      ctx.moveTo(source.x, source.y)
+      ctx.lineTo(dragPoint.x, dragPoint.y)
+      ctx.strokeStyle = invalid ? '#CF6679' : '#BB86FC'
+      ctx.lineWidth = 2
+      ctx.stroke()
+      ctx.setLineDash([])
+
+      const target = dropTarget ? layout.byId.get(dropTarget.id) : null
+      if (target) {
+        traceNodeShape(ctx, target, size, 6)
+        ctx.strokeStyle = invalid ? '#CF6679' : '#03DAC6'
+        ctx.lineWidth = 3
+        ctx.stroke()
+      }
+    }
+
+    drawMinimap()
+  }, [
+    layout,
+    selectedNode,
+    conversation,
+    draggedNode,
+    dropTarget,
+    dragCopy,
+    drawMinimap,
+    canvasFocused,
+    colorMode,
+  ])
+
+  // Coalesce redraw requests into one per animation frame
+  const drawRef = useRef(draw)
+  drawRef.current = draw
+  const requestDraw = useCallback(() => {
+    if (frameRef.current !== null) return
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null
+      drawRef.current()
+    })
+  }, [])
 
   useEffect(() => {
-    draw()
-  }, [draw])
+    requestDraw()
+  }, [draw, requestDraw])
 
   useEffect(() => {
-    const handleResize = () => draw()
-    window.addEventListener('resize', handleResize)
-    return () => window.removeEventListener('resize', handleResize)
-  }, [draw])
-
-  const findNodeAtPosition = (
-    treeNode: TreeNode,
-    x: number,
-    y: number
-  ): Node | null => {
-    const dx = x - treeNode.x
-    const dy = y - treeNode.y
-    if (dx * dx + dy * dy <= NODE_RADIUS * NODE_RADIUS) {
-      return treeNode.node
-    }
-    for (const child of treeNode.children) {
-      const found = findNodeAtPosition(child, x, y)
-      if (found) return found
-    }
-    return null
+    window.addEventListener('resize', requestDraw)
+    return () => {
+      window.removeEventListener('resize', requestDraw)
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [requestDraw])
+
+  useEffect(() => {
+    minimapCacheRef.current = null
+  }, [layout])
+
+  const fitToScreen = useCallback(() => {
+    if (!layout || layout.nodes.length === 0) return
+    const { width, height } = canvasSize()
+    const { minX, minY, maxX, maxY } = layout.bounds
+    const padding = 40
+    const scale = clampScale(
+      Math.min((width - padding * 2) / (maxX - minX), (height - padding * 2) / (maxY - minY), 1.5)
+    )
+    viewRef.current = {
+      scale,
+      x: width / 2 - ((minX + maxX) / 2) * scale,
+      y: height / 2 - ((minY + maxY) / 2) * scale,
+    }
+    requestDraw()
+  }, [layout, requestDraw])
+
+  const centerOn = useCallback(
+    (id: string) => {
+      const target = layout?.byId.get(id)
+      if (!target) return
+      const { width, height } = canvasSize()
+      const { scale } = viewRef.current
+      viewRef.current = { scale, x: width / 2 - target.x * scale, y: height / 2 - target.y * scale }
+      requestDraw()
+    },
+    [layout, requestDraw]
+  )
+
+  // Zoom around a screen point so whatever is under the cursor stays put
+  const zoomAt = useCallback(
+    (screenX: number, screenY: number, factor: number) => {
+      const view = viewRef.current
+      const scale = clampScale(view.scale * factor)
+      const k = scale / view.scale
+      viewRef.current = {
+        scale,
+        x: screenX - (screenX - view.x) * k,
+        y: screenY - (screenY - view.y) * k,
+      }
+      requestDraw()
+    },
+    [requestDraw]
+  )
+
+  const zoomCenter = (factor: number) => {
+    const { width, height } = canvasSize()
+    zoomAt(width / 2, height / 2, factor)
   }
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!treeRoot) return
+  // Place the view the first time a conversation's tree is shown, and again after switching
+  // node shape or layout
+  useEffect(() => {
+    const placement = `${conversation?.id}/${layout?.size.shape}/${layout?.mode}`
+    if (!layout || !conversation || placedForRef.current === placement) return
+    placedForRef.current = placement
+    if (conversation.activeNodeId && layout.byId.has(conversation.activeNodeId)) {
+      centerOn(conversation.activeNodeId)
+    } else {
+      fitToScreen()
+    }
+  }, [layout, conversation, centerOn, fitToScreen])
 
+  // Wheel (and trackpad pinch, which arrives as ctrl+wheel) zooms. React's wheel
+  // listener is passive, so attach one that can stop the page from zooming instead.
+  useEffect(() => {
     const canvas = canvasRef.current
     if (!canvas) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = canvas.getBoundingClientRect()
+      zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015)))
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [zoomAt])
 
-    const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left - offset.x
-    const y = e.clientY - rect.top - offset.y
+  // Pointer position relative to the canvas
+  const toScreenPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const toTreePoint = (point: { x: number; y: number }) => {
+    const view = viewRef.current
+    return { x: (point.x - view.x) / view.scale, y: (point.y - view.y) / view.scale }
+  }
+
+  const nodeAtPoint = (point: { x: number; y: number }): Node | null => {
+    if (!layout) return null
+    const hit = layout.nodes.find((n) => hitTest(n, layout.size, point.x, point.y))
+    return hit?.node ?? null
+  }
+
+  // Distance and midpoint of the two fingers of a pinch
+  const pinchState = () => {
+    const [a, b] = [...pointersRef.current.values()]
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+  }
 
-    const clickedNode = findNodeAtPosition(treeRoot, x, y)
-    if (clickedNode) {
-      setSelectedNode(clickedNode)
+  const resetGesture = () => {
+    setDragging(false)
+    setDraggedNode(null)
+    dragPointRef.current = null
+    setDropTarget(null)
+    setDragCopy(false)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const point = toScreenPoint(e)
+    pointersRef.current.set(e.pointerId, point)
+
+    // A second finger turns the gesture into a pinch
+    if (pointersRef.current.size === 2) {
+      resetGesture()
+      didDragRef.current = true
+      pinchRef.current = pinchState()
+      return
+    }
+    if (pointersRef.current.size > 2) return
+
+    didDragRef.current = false
+    pressStartRef.current = point
+    // Mouse and pen can drag a node onto a new parent; on touch a drag always pans
+    const pressedNode = nodeAtPoint(toTreePoint(point))
+    if (pressedNode && e.pointerType !== 'touch') {
+      setDraggedNode(pressedNode)
+    } else {
+      setDragging(true)
+      panStartRef.current = { x: point.x - viewRef.current.x, y: point.y - viewRef.current.y }
     }
   }
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    setDragging(true)
-    setDragStart({ x: e.clientX - offset.x, y: e.clientY - offset.y })
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) {
+      if (e.pointerType === 'mouse') updateHover(toScreenPoint(e))
+      return
+    }
+    if (hovered) setHovered(null)
+    const point = toScreenPoint(e)
+    pointersRef.current.set(e.pointerId, point)
+
+    if (pinchRef.current) {
+      if (pointersRef.current.size !== 2) return
+      const previous = pinchRef.current
+      const next = pinchState()
+      // Follow the midpoint, then scale around it
+      viewRef.current = {
+        ...viewRef.current,
+        x: viewRef.current.x + next.x - previous.x,
+        y: viewRef.current.y + next.y - previous.y,
+      }
+      zoomAt(next.x, next.y, next.distance / (previous.distance || 1))
+      pinchRef.current = next
+      return
+    }
+
+    const moved = Math.hypot(point.x - pressStartRef.current.x, point.y - pressStartRef.current.y)
+    if (!didDragRef.current && moved < DRAG_THRESHOLD) return
+    didDragRef.current = true
+
+    if (draggedNode) {
+      const treePoint = toTreePoint(point)
+      dragPointRef.current = treePoint
+      const target = nodeAtPoint(treePoint)
+      const nextTarget = target && target.id !== draggedNode.id ? target : null
+      if (nextTarget?.id !== dropTarget?.id) setDropTarget(nextTarget)
+      if (e.altKey !== dragCopy) setDragCopy(e.altKey)
+      requestDraw()
+    } else if (dragging) {
+      viewRef.current = {
+        ...viewRef.current,
+        x: point.x - panStartRef.current.x,
+        y: point.y - panStartRef.current.y,
+      }
+      requestDraw()
+    }
+  }
+
+  const handlePointerUp = async (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointersRef.current.delete(e.pointerId)) return
+
+    if (pinchRef.current) {
+      // The pinch ends once a finger lifts; the remaining one can keep panning
+      pinchRef.current = null
+      const [remaining] = [...pointersRef.current.values()]
+      if (remaining) {
+        setDragging(true)
+        panStartRef.current = { x: remaining.x - viewRef.current.x, y: remaining.y - viewRef.current.y }
+      }
+      return
+    }
+
+    const node = draggedNode
+    const target = dropTarget
+    resetGesture()
+    if (!didDragRef.current) {
+      handleTap(toTreePoint(toScreenPoint(e)))
+      return
+    }
+    // Holding Alt copies instead of moving
+    if (node && target && conversationId) {
+      await runGraft(() =>
+        e.altKey
+          ? copySubtree(node.id, conversationId, target.id)
+          : moveSubtree(node.id, conversationId, target.id)
+      )
+    }
+  }
+
+  // Show the full text of the node under the mouse; the card stays where it first appeared
+  const updateHover = (point: { x: number; y: number }) => {
+    const node = nodeAtPoint(toTreePoint(point))
+    if (node?.id === hovered?.node.id) return
+    setHovered(node ? { node, ...point } : null)
+  }
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId)
+    pinchRef.current = null
+    resetGesture()
   }
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (dragging) {
-      setOffset({
-        x: e.clientX - dragStart.x,
-        y: e.clientY - dragStart.y,
-      })
+  // A tap selects a node; a second tap on the same node continues from it
+  const handleTap = (point: { x: number; y: number }) => {
+    const tapped = nodeAtPoint(point)
+    if (!tapped) return
+    // Collapsed chains open on tap
+    const segment = layout?.byId.get(tapped.id)
+    if (segment?.hidden) {
+      toggleSegment(segment)
+      return
+    }
+    if (compareFrom && tapped.id !== compareFrom.id) {
+      openCompare(compareFrom, tapped)
+      return
     }
+    const now = Date.now()
+    const lastTap = lastTapRef.current
+    if (lastTap && lastTap.nodeId === tapped.id && now - lastTap.time < DOUBLE_TAP_MS) {
+      lastTapRef.current = null
+      continueFrom(tapped)
+      return
+    }
+    lastTapRef.current = { nodeId: tapped.id, time: now }
+    setSelectedNode(tapped)
   }
 
-  const handleMouseUp = () => {
-    setDragging(false)
+  const openCompare = (a: Node, b: Node) => {
+    setCompareFrom(null)
+    navigate(`/compare/${conversationId}?a=${a.id}&b=${b.id}`)
+  }
+
+  const toggleSegment = (segment: LayoutNode) => {
+    const next = new Set(expanded)
+    const id = segment.node.id
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    setExpanded(next)
+    setSelectedNode(segment.node)
+  }
+
+  const handleLayoutModeChange = async (mode: TreeLayoutMode) => {
+    setDisplayMenuAnchor(null)
+    if (!conversationId) return
+    await updateConversationTreeLayout(conversationId, mode)
+    setExpanded(new Set())
+    await loadData()
+  }
+
+  // Pan just enough that a node selected from the keyboard is on screen
+  const keepInView = (target: LayoutNode) => {
+    const { width, height } = canvasSize()
+    const view = viewRef.current
+    const x = target.x * view.scale + view.x
+    const y = target.y * view.scale + view.y
+    const margin = (Math.max(layout!.size.width, layout!.size.height) / 2) * view.scale + 16
+    if (x < margin || x > width - margin || y < margin || y > height - margin) {
+      centerOn(target.node.id)
+    }
+  }
+
+  // Arrows walk the tree: towards the root, towards the leaves, and across siblings
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (!layout || layout.roots.length === 0) return
+    const current = selectedNode ? layout.byId.get(selectedNode.id) : undefined
+    let next: LayoutNode | null | undefined
+
+    const key = layout.mode === 'horizontal' ? (HORIZONTAL_KEYS[e.key] ?? e.key) : e.key
+    switch (key) {
+      case 'ArrowUp':
+        next = current ? current.parent : layout.roots[0]
+        break
+      case 'ArrowDown':
+        next = current ? childTowardActive(current) : layout.roots[0]
+        break
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        if (!current) {
+          next = layout.roots[0]
+          break
+        }
+        const siblings = current.parent ? current.parent.children : layout.roots
+        next = siblings[siblings.indexOf(current) + (key === 'ArrowLeft' ? -1 : 1)]
+        break
+      }
+      case 'Enter':
+        e.preventDefault()
+        if (current?.hidden) toggleSegment(current)
+        else if (current && compareFrom && current.node.id !== compareFrom.id) {
+          openCompare(compareFrom, current.node)
+        } else if (current) continueFrom(current.node)
+        return
+      case '+':
+      case '=':
+        zoomCenter(ZOOM_STEP)
+        return
+      case '-':
+        zoomCenter(1 / ZOOM_STEP)
+        return
+      default:
+        return
+    }
+
+    e.preventDefault()
+    if (next) {
+      setSelectedNode(next.node)
+      keepInView(next)
+    }
   }
 
-  const handleContinueFromHere = async () => {
-    if (!selectedNode || !conversationId) return
-    await updateConversationActiveNode(conversationId, selectedNode.id)
-    navigate(`/chat/${conversationId}`)
+  // Prefer the child on the way to the active node so Down retraces the current path
+  const childTowardActive = (parent: LayoutNode): LayoutNode | undefined => {
+    let current = conversation?.activeNodeId ? layout?.byId.get(conversation.activeNodeId) : undefined
+    while (current && current.parent !== parent) current = current.parent ?? undefined
+    return current ?? parent.children[0]
+  }
+
+  // Colours in use when colouring by model or tag
+  const legend = useMemo(() => {
+    if (!layout || colorMode === 'role') return []
+    const keys = new Set<string>()
+    let uncolored = false
+    for (const { node } of layout.nodes) {
+      const key = colorKey(node, colorMode)
+      if (key) keys.add(key)
+      else uncolored = true
+    }
+    const entries = [...keys].sort().map((key) => ({ label: key, color: keyColor(key) }))
+    const shown = entries.slice(0, MAX_LEGEND_ENTRIES)
+    if (entries.length > MAX_LEGEND_ENTRIES) {
+      shown.push({ label: `+${entries.length - MAX_LEGEND_ENTRIES} more`, color: 'transparent' })
+    }
+    if (uncolored) {
+      shown.push({ label: colorMode === 'model' ? 'No model' : 'No tag', color: UNCOLORED })
+    }
+    return shown
+  }, [layout, colorMode])
+
+  const hoveredSegment = hovered ? layout?.byId.get(hovered.node.id)?.hidden : undefined
+
+  // Spoken summary of the selection for screen readers
+  const describeSelection = () => {
+    const current = selectedNode ? layout?.byId.get(selectedNode.id) : undefined
+    if (!current) return 'No message selected'
+    if (current.hidden) return `Collapsed chain of ${current.hidden.length} messages, press Enter to expand`
+    const siblings = current.parent ? current.parent.children : layout!.roots
+    let depth = 1
+    for (let n = current.parent; n; n = n.parent) depth++
+    return [
+      `${current.node.role === 'user' ? 'User' : 'Assistant'} message, level ${depth}`,
+      `branch ${siblings.indexOf(current) + 1} of ${siblings.length}`,
+      `${current.children.length} ${current.children.length === 1 ? 'reply' : 'replies'}`,
+      ...(current.node.bookmark ? [`bookmarked as ${current.node.bookmark.label}`] : []),
+      current.node.content.slice(0, 120),
+    ].join(', ')
+  }
+
+  // Jump the main view to the point clicked on the minimap
+  const handleMinimapClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!layout) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const map = minimapTransform(layout)
+    const x = (e.clientX - rect.left - map.x) / map.scale
+    const y = (e.clientY - rect.top - map.y) / map.scale
+    const { width, height } = canvasSize()
+    const { scale } = viewRef.current
+    viewRef.current = { scale, x: width / 2 - x * scale, y: height / 2 - y * scale }
+    requestDraw()
+  }
+
+  // Run a graft operation and surface rejected ones (e.g. cycles) instead of failing silently
+  const runGraft = async (operation: () => Promise<unknown>) => {
+    try {
+      await operation()
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+    await loadData()
+  }
+
+  const handleOpenGraftDialog = async () => {
+    setConversations(await getActiveConversations())
+    setGraftDialogOpen(true)
+  }
+
+  const handleGraft = async (mode: GraftMode, targetId: string, parentId: string | null) => {
+    setGraftDialogOpen(false)
+    if (!selectedNode) return
+    const nodeId = selectedNode.id
+    await runGraft(() =>
+      mode === 'copy'
+        ? copySubtree(nodeId, targetId, parentId)
+        : moveSubtree(nodeId, targetId, parentId)
+    )
+    if (mode === 'move' && targetId !== conversationId) setSelectedNode(null)
+  }
+
+  const handleSplit = async () => {
+    if (!selectedNode) return
+    try {
+      const split = await splitSubtree(selectedNode.id)
+      navigate(`/tree/${split.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleSaveBookmark = async (bookmark: Bookmark | null) => {
+    setBookmarkDialogOpen(false)
+    if (!selectedNode) return
+    await setNodeBookmark(selectedNode.id, bookmark)
+    const updated = { ...selectedNode, bookmark }
+    await loadData()
+    setSelectedNode(updated)
+  }
+
+  const handleDeleteBranch = async () => {
+    if (!selectedNode) return
+    await softDeleteSubtree(selectedNode.id)
+    setSelectedNode(null)
+    await loadData()
+  }
+
+  // Completion documents open in the document view instead of the chat
+  const screenPath = conversation?.kind === 'completion' ? 'document' : 'chat'
+
+  const continueFrom = async (node: Node) => {
+    if (!conversationId) return
+    await updateConversationActiveNode(conversationId, node.id)
+    navigate(`/${screenPath}/${conversationId}`)
   }
 
   return (
@@ -260,26 +1036,174 @@ export default function TreeScreen() {
           <IconButton
             edge="start"
             color="inherit"
-            onClick={() => navigate(`/chat/${conversationId}`)}
+            onClick={() => navigate(`/${screenPath}/${conversationId}`)}
           >
             <BackIcon />
           </IconButton>
           <Typography variant="h6" sx={{ flexGrow: 1, ml: 1 }}>
             Tree View
           </Typography>
+          <IconButton
+            color="inherit"
+            onClick={(e) => setDisplayMenuAnchor(e.currentTarget)}
+            title="Display options"
+          >
+            <DisplayIcon />
+          </IconButton>
+          <IconButton color="inherit" onClick={() => zoomCenter(1 / ZOOM_STEP)} title="Zoom out">
+            <ZoomOutIcon />
+          </IconButton>
+          <IconButton color="inherit" onClick={() => zoomCenter(ZOOM_STEP)} title="Zoom in">
+            <ZoomInIcon />
+          </IconButton>
+          <IconButton color="inherit" onClick={fitToScreen} title="Fit to screen">
+            <FitScreenIcon />
+          </IconButton>
+          <IconButton
+            color="inherit"
+            onClick={() => conversation?.activeNodeId && centerOn(conversation.activeNodeId)}
+            disabled={!conversation?.activeNodeId}
+            title="Center on active node"
+          >
+            <CenterIcon />
+          </IconButton>
         </Toolbar>
       </AppBar>
 
       <Box sx={{ flexGrow: 1, position: 'relative' }}>
         <canvas
           ref={canvasRef}
-          style={{ width: '100%', height: '100%', cursor: dragging ? 'grabbing' : 'grab' }}
-          onClick={handleCanvasClick}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          tabIndex={0}
+          role="application"
+          aria-roledescription="conversation tree"
+          aria-label="Conversation tree. Arrow keys move between messages, Enter continues from the selected one."
+          aria-describedby="tree-selection"
+          style={{
+            width: '100%',
+            height: '100%',
+            cursor: dragging || draggedNode ? 'grabbing' : 'grab',
+            // Let the canvas handle touch pans and pinches instead of the browser
+            touchAction: 'none',
+            outline: 'none',
+          }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onPointerLeave={(e) => {
+            if (!hoverCardRef.current?.contains(e.relatedTarget as Element | null)) setHovered(null)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setCanvasFocused(true)}
+          onBlur={() => setCanvasFocused(false)}
         />
+        <Box
+          id="tree-selection"
+          aria-live="polite"
+          sx={{
+            position: 'absolute',
+            width: 1,
+            height: 1,
+            overflow: 'hidden',
+            clip: 'rect(0 0 0 0)',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {describeSelection()}
+        </Box>
+
+        {layout && layout.nodes.length > 1 && (
+          <canvas
+            ref={minimapRef}
+            onClick={handleMinimapClick}
+            style={{
+              position: 'absolute',
+              top: 16,
+              right: 16,
+              width: MINIMAP_WIDTH,
+              height: MINIMAP_HEIGHT,
+              border: '1px solid #444',
+              borderRadius: 4,
+              cursor: 'pointer',
+            }}
+          />
+        )}
+
+        {/* Under the minimap, so the alerts along the top don't cover it */}
+        {legend.length > 0 && (
+          <Paper
+            sx={{
+              position: 'absolute',
+              top: layout && layout.nodes.length > 1 ? MINIMAP_HEIGHT + 32 : 16,
+              right: 16,
+              p: 1,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 0.5,
+            }}
+          >
+            {legend.map(({ label, color }) => (
+              <Box key={label} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Box sx={{ width: 12, height: 12, borderRadius: 0.5, backgroundColor: color }} />
+                <Typography variant="caption">{label}</Typography>
+              </Box>
+            ))}
+          </Paper>
+        )}
+
+        {/* The spacer puts the card below the pointer and gives way when the text needs the room */}
+        {hovered && (
+          <Box
+            sx={{
+              position: 'absolute',
+              top: 8,
+              bottom: 8,
+              left: Math.max(8, Math.min(hovered.x + 16, canvasSize().width - HOVER_CARD_WIDTH - 8)),
+              width: HOVER_CARD_WIDTH,
+              display: 'flex',
+              flexDirection: 'column',
+              pointerEvents: 'none',
+            }}
+          >
+            <Box sx={{ height: hovered.y + 8, minHeight: 0, flexShrink: 1 }} />
+            {/* Taller than the canvas: the pointer can move onto the card to scroll it */}
+            <Paper
+              ref={hoverCardRef}
+              elevation={8}
+              onPointerLeave={() => setHovered(null)}
+              sx={{ flexShrink: 0, maxHeight: '100%', overflowY: 'auto', p: 1.5, pointerEvents: 'auto' }}
+            >
+              <Typography variant="caption" color="text.secondary">
+                {hoveredSegment ? `${hoveredSegment.length} collapsed messages · click to expand · ` : ''}
+                {cardHeading(hovered.node)}
+                {hovered.node.bookmark ? ` · ★ ${hovered.node.bookmark.label}` : ''}
+              </Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mt: 0.5 }}>
+                {hovered.node.content || '(empty)'}
+              </Typography>
+            </Paper>
+          </Box>
+        )}
+
+        {compareFrom && (
+          <Alert
+            severity="info"
+            onClose={() => setCompareFrom(null)}
+            sx={{ position: 'absolute', top: 16, left: 16, right: MINIMAP_WIDTH + 32 }}
+          >
+            Select another message to compare with
+          </Alert>
+        )}
+
+        {error && (
+          <Alert
+            severity="error"
+            onClose={() => setError(null)}
+            sx={{ position: 'absolute', top: 16, left: 16, right: MINIMAP_WIDTH + 32 }}
+          >
+            {error}
+          </Alert>
+        )}
 
         {selectedNode && (
           <Paper
@@ -292,7 +1216,15 @@ export default function TreeScreen() {
             }}
           >
             <Typography variant="subtitle2" color="text.secondary">
-              {selectedNode.role === 'user' ? 'User' : 'Assistant'}
+              {conversation?.kind === 'completion'
+                ? selectedNode.role === 'user'
+                  ? 'Written text'
+                  : 'Generated text'
+                : selectedNode.role === 'user'
+                  ? 'User'
+                  : 'Assistant'}
+              {selectedNode.stale ? ' (stale)' : ''}
+              {selectedNode.truncated ? ' (truncated)' : ''}
             </Typography>
             <Typography
               sx={{
@@ -305,16 +1237,99 @@ export default function TreeScreen() {
               {selectedNode.content.slice(0, 200)}
               {selectedNode.content.length > 200 ? '...' : ''}
             </Typography>
-            <Button
-              variant="contained"
-              fullWidth
-              sx={{ mt: 2 }}
-              onClick={handleContinueFromHere}
-            >
-              Continue from here
-            </Button>
+            {selectedNode.bookmark && (
+              <Typography variant="caption" color="warning.main" sx={{ display: 'block', mt: 1 }}>
+                ★ {selectedNode.bookmark.label}
+                {selectedNode.bookmark.tags.map((t) => ` #${t}`).join('')}
+              </Typography>
+            )}
+            {selectedNode.generation && (
+              <Box sx={{ mt: 1, maxHeight: 160, overflow: 'auto' }}>
+                <GenerationDetails generation={selectedNode.generation} />
+              </Box>
+            )}
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2 }}>
+              <Button variant="outlined" color="error" onClick={handleDeleteBranch}>
+                Delete branch
+              </Button>
+              <Button variant="outlined" onClick={handleOpenGraftDialog}>
+                Move / copy
+              </Button>
+              <Button variant="outlined" onClick={handleSplit}>
+                Split out
+              </Button>
+              <Button variant="outlined" onClick={() => setCompareFrom(selectedNode)}>
+                Compare
+              </Button>
+              <Button variant="outlined" onClick={() => setExportDialogOpen(true)}>
+                Export path
+              </Button>
+              <Button variant="outlined" onClick={() => setBookmarkDialogOpen(true)}>
+                {selectedNode.bookmark ? 'Edit bookmark' : 'Bookmark'}
+              </Button>
+              <Button variant="contained" sx={{ flexGrow: 1 }} onClick={() => continueFrom(selectedNode)}>
+                Continue from here
+              </Button>
+            </Box>
           </Paper>
         )}
+
+        <BookmarkDialog
+          open={bookmarkDialogOpen}
+          bookmark={selectedNode?.bookmark ?? null}
+          defaultLabel={selectedNode?.content.slice(0, 40) ?? ''}
+          onClose={() => setBookmarkDialogOpen(false)}
+          onSave={handleSaveBookmark}
+        />
+
+        <Menu
+          anchorEl={displayMenuAnchor}
+          open={Boolean(displayMenuAnchor)}
+          onClose={() => setDisplayMenuAnchor(null)}
+        >
+          <ListSubheader>Nodes</ListSubheader>
+          <MenuItem selected={nodeShape === 'circle'} onClick={() => setNodeShape('circle')}>
+            Circles
+          </MenuItem>
+          <MenuItem selected={nodeShape === 'card'} onClick={() => setNodeShape('card')}>
+            Cards with preview
+          </MenuItem>
+          <ListSubheader>Layout</ListSubheader>
+          {LAYOUT_MODES.map(({ mode, label }) => (
+            <MenuItem
+              key={mode}
+              selected={conversation?.treeLayoutMode === mode}
+              onClick={() => handleLayoutModeChange(mode)}
+            >
+              {label}
+            </MenuItem>
+          ))}
+          <ListSubheader>Colour by</ListSubheader>
+          <MenuItem selected={colorMode === 'role'} onClick={() => setColorMode('role')}>
+            Role
+          </MenuItem>
+          <MenuItem selected={colorMode === 'model'} onClick={() => setColorMode('model')}>
+            Model
+          </MenuItem>
+          <MenuItem selected={colorMode === 'tag'} onClick={() => setColorMode('tag')}>
+            First tag
+          </MenuItem>
+        </Menu>
+
+        <GraftDialog
+          open={graftDialogOpen}
+          conversations={conversations}
+          conversationId={conversationId ?? ''}
+          onClose={() => setGraftDialogOpen(false)}
+          onSave={handleGraft}
+        />
+
+        <ExportDialog
+          open={exportDialogOpen}
+          conversationId={conversationId ?? null}
+          nodeId={selectedNode?.id}
+          onClose={() => setExportDialogOpen(false)}
+        />
       </Box>
     </Box>
   )